@@ -0,0 +1,17 @@
+CREATE TABLE `fight_result_corrections` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`fightId` int NOT NULL,
+	`previousWinner` varchar(128),
+	`previousFinishType` enum('finish','decision'),
+	`previousMethod` enum('tko_ko','submission','decision','draw','nc'),
+	`newWinner` varchar(128) NOT NULL,
+	`newFinishType` enum('finish','decision') NOT NULL,
+	`newMethod` enum('tko_ko','submission','decision','draw','nc') NOT NULL,
+	`reason` text,
+	`changes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `fight_result_corrections_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `credibility_log` ADD `reversedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `credibility_log` ADD `correctionId` int;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `predictions` MODIFY COLUMN `status` enum('pending','correct','wrong','partial','void') NOT NULL DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE `credibility_log` ADD `status` enum('scored','void') DEFAULT 'scored' NOT NULL;
\ No newline at end of file
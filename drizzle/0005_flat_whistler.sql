@@ -0,0 +1,13 @@
+CREATE TABLE `scoring_rule_versions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`version` int NOT NULL,
+	`rules` text NOT NULL,
+	`notes` text,
+	`status` enum('draft','active','retired') NOT NULL DEFAULT 'draft',
+	`activatedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `scoring_rule_versions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `scoring_rule_versions_version_unique` UNIQUE(`version`)
+);
+--> statement-breakpoint
+ALTER TABLE `credibility_log` ADD `ruleVersion` int;
\ No newline at end of file
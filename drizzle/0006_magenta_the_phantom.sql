@@ -0,0 +1 @@
+ALTER TABLE `user_profiles` ADD `recentCredibilityScore` int DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `season_standings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`seasonId` int NOT NULL,
+	`userId` int NOT NULL,
+	`rank` int NOT NULL,
+	`points` int NOT NULL DEFAULT 0,
+	`totalPicks` int NOT NULL DEFAULT 0,
+	`correctPicks` int NOT NULL DEFAULT 0,
+	`score` int NOT NULL DEFAULT 0,
+	`tier` enum('rookie','contender','champion','goat') NOT NULL DEFAULT 'rookie',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `season_standings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `season_standings_season_user_idx` UNIQUE(`seasonId`,`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `seasons` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(128) NOT NULL,
+	`startsAt` timestamp NOT NULL,
+	`endsAt` timestamp NOT NULL,
+	`finalizedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `seasons_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `season_standings_season_rank_idx` ON `season_standings` (`seasonId`,`rank`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE INDEX `user_profiles_score_idx` ON `user_profiles` (`credibilityScore`,`userId`);--> statement-breakpoint
+CREATE INDEX `user_profiles_recent_score_idx` ON `user_profiles` (`recentCredibilityScore`,`userId`);
\ No newline at end of file
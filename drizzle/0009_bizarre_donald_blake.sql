@@ -0,0 +1,18 @@
+CREATE TABLE `leaderboard_ranks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`scope` enum('global','global_recent','event','season') NOT NULL,
+	`scopeId` int NOT NULL DEFAULT 0,
+	`userId` int NOT NULL,
+	`rank` int NOT NULL DEFAULT 0,
+	`score` int NOT NULL DEFAULT 0,
+	`totalPicks` int NOT NULL DEFAULT 0,
+	`correctPicks` int NOT NULL DEFAULT 0,
+	`partialPicks` int NOT NULL DEFAULT 0,
+	`perfectPicks` int NOT NULL DEFAULT 0,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `leaderboard_ranks_id` PRIMARY KEY(`id`),
+	CONSTRAINT `leaderboard_ranks_scope_user_idx` UNIQUE(`scope`,`scopeId`,`userId`)
+);
+--> statement-breakpoint
+CREATE INDEX `leaderboard_ranks_scope_rank_idx` ON `leaderboard_ranks` (`scope`,`scopeId`,`rank`);--> statement-breakpoint
+CREATE INDEX `leaderboard_ranks_scope_updated_idx` ON `leaderboard_ranks` (`scope`,`scopeId`,`updatedAt`);
\ No newline at end of file
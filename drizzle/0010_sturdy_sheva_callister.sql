@@ -0,0 +1 @@
+ALTER TABLE `fights` ADD `lockedAt` timestamp;
\ No newline at end of file
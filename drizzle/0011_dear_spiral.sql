@@ -0,0 +1,47 @@
+CREATE TABLE `job_runs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobId` int NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`attempt` int NOT NULL,
+	`workerId` varchar(128) NOT NULL,
+	`status` enum('running','succeeded','failed') NOT NULL DEFAULT 'running',
+	`result` text,
+	`error` text,
+	`startedAt` timestamp NOT NULL DEFAULT (now()),
+	`finishedAt` timestamp,
+	`durationMs` int,
+	CONSTRAINT `job_runs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`payload` text,
+	`status` enum('pending','running','succeeded','failed') NOT NULL DEFAULT 'pending',
+	`dedupeKey` varchar(128),
+	`runAt` timestamp NOT NULL DEFAULT (now()),
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 5,
+	`lockedBy` varchar(128),
+	`lockedUntil` timestamp,
+	`lastError` text,
+	`result` text,
+	`finishedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `jobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `jobs_dedupeKey_unique` UNIQUE(`dedupeKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `worker_leases` (
+	`name` varchar(64) NOT NULL,
+	`holder` varchar(128) NOT NULL,
+	`expiresAt` timestamp NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `worker_leases_name` PRIMARY KEY(`name`)
+);
+--> statement-breakpoint
+CREATE INDEX `job_runs_job_idx` ON `job_runs` (`jobId`);--> statement-breakpoint
+CREATE INDEX `job_runs_name_idx` ON `job_runs` (`name`,`startedAt`);--> statement-breakpoint
+CREATE INDEX `jobs_status_run_at_idx` ON `jobs` (`status`,`runAt`);--> statement-breakpoint
+CREATE INDEX `jobs_name_idx` ON `jobs` (`name`,`createdAt`);
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `manual_results` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`fightId` int,
+	`fighter1Name` varchar(128) NOT NULL,
+	`fighter2Name` varchar(128) NOT NULL,
+	`status` enum('completed','cancelled') NOT NULL DEFAULT 'completed',
+	`winner` varchar(128),
+	`method` enum('tko_ko','submission','decision','draw','nc'),
+	`methodText` varchar(128),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `manual_results_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `result_reviews` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`fightId` int NOT NULL,
+	`status` enum('pending','approved','rejected') NOT NULL DEFAULT 'pending',
+	`reason` varchar(255) NOT NULL,
+	`proposedStatus` enum('completed','cancelled') NOT NULL DEFAULT 'completed',
+	`winner` varchar(128),
+	`finishType` enum('finish','decision'),
+	`method` enum('tko_ko','submission','decision','draw','nc'),
+	`providerResults` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`reviewedAt` timestamp,
+	CONSTRAINT `result_reviews_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `result_reviews_fight_idx` ON `result_reviews` (`fightId`,`status`);--> statement-breakpoint
+CREATE INDEX `result_reviews_status_idx` ON `result_reviews` (`status`,`createdAt`);
\ No newline at end of file
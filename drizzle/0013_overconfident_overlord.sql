@@ -0,0 +1,3 @@
+ALTER TABLE `result_reviews` ADD `confidence` int;--> statement-breakpoint
+ALTER TABLE `result_reviews` ADD `rawPayload` text;--> statement-breakpoint
+ALTER TABLE `result_reviews` ADD `note` text;
\ No newline at end of file
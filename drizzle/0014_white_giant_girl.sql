@@ -0,0 +1,6 @@
+ALTER TABLE `fights` ADD `methodDetail` varchar(128);--> statement-breakpoint
+ALTER TABLE `fights` ADD `decisionType` enum('unanimous','split','majority');--> statement-breakpoint
+ALTER TABLE `fights` ADD `referee` varchar(128);--> statement-breakpoint
+ALTER TABLE `manual_results` ADD `round` int;--> statement-breakpoint
+ALTER TABLE `manual_results` ADD `fightTime` varchar(16);--> statement-breakpoint
+ALTER TABLE `manual_results` ADD `referee` varchar(128);
\ No newline at end of file
@@ -0,0 +1,49 @@
+CREATE TABLE `fighter_aliases` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`fighterId` int NOT NULL,
+	`alias` varchar(128) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `fighter_aliases_id` PRIMARY KEY(`id`),
+	CONSTRAINT `fighter_aliases_alias_unique` UNIQUE(`alias`)
+);
+--> statement-breakpoint
+CREATE TABLE `fighters` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(128) NOT NULL,
+	`ufcSlug` varchar(128),
+	`espnAthleteId` varchar(32),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `fighters_id` PRIMARY KEY(`id`),
+	CONSTRAINT `fighters_ufcSlug_unique` UNIQUE(`ufcSlug`),
+	CONSTRAINT `fighters_espnAthleteId_unique` UNIQUE(`espnAthleteId`)
+);
+--> statement-breakpoint
+ALTER TABLE `fights` ADD `fighter1Id` int;--> statement-breakpoint
+ALTER TABLE `fights` ADD `fighter2Id` int;--> statement-breakpoint
+ALTER TABLE `fights` ADD `winnerId` int;--> statement-breakpoint
+ALTER TABLE `predictions` ADD `pickedWinnerId` int;--> statement-breakpoint
+ALTER TABLE `user_fighter_stats` ADD `fighterId` int;--> statement-breakpoint
+CREATE INDEX `fighter_aliases_fighter_idx` ON `fighter_aliases` (`fighterId`);--> statement-breakpoint
+CREATE INDEX `user_fighter_stats_fighter_idx` ON `user_fighter_stats` (`fighterId`);--> statement-breakpoint
+-- Backfill: one fighter per distinct name on existing fights (normalized like normalizeFighterName)
+INSERT INTO `fighters` (`name`)
+SELECT MIN(`name`) FROM (
+	SELECT TRIM(`fighter1Name`) AS `name` FROM `fights`
+	UNION ALL
+	SELECT TRIM(`fighter2Name`) FROM `fights`
+) AS `names`
+GROUP BY REGEXP_REPLACE(LOWER(`name`), '[[:space:]]+', ' ');--> statement-breakpoint
+INSERT IGNORE INTO `fighter_aliases` (`fighterId`, `alias`)
+SELECT `id`, REGEXP_REPLACE(LOWER(TRIM(`name`)), '[[:space:]]+', ' ') FROM `fighters`;--> statement-breakpoint
+UPDATE `fights` `f` JOIN `fighter_aliases` `a` ON `a`.`alias` = REGEXP_REPLACE(LOWER(TRIM(`f`.`fighter1Name`)), '[[:space:]]+', ' ')
+SET `f`.`fighter1Id` = `a`.`fighterId`;--> statement-breakpoint
+UPDATE `fights` `f` JOIN `fighter_aliases` `a` ON `a`.`alias` = REGEXP_REPLACE(LOWER(TRIM(`f`.`fighter2Name`)), '[[:space:]]+', ' ')
+SET `f`.`fighter2Id` = `a`.`fighterId`;--> statement-breakpoint
+UPDATE `fights`
+SET `winnerId` = CASE WHEN `winner` = `fighter1Name` THEN `fighter1Id` WHEN `winner` = `fighter2Name` THEN `fighter2Id` END
+WHERE `winner` IS NOT NULL AND `winner` <> '';--> statement-breakpoint
+UPDATE `predictions` `p` JOIN `fights` `f` ON `f`.`id` = `p`.`fightId`
+SET `p`.`pickedWinnerId` = CASE WHEN `p`.`pickedWinner` = `f`.`fighter1Name` THEN `f`.`fighter1Id` WHEN `p`.`pickedWinner` = `f`.`fighter2Name` THEN `f`.`fighter2Id` END;--> statement-breakpoint
+UPDATE `user_fighter_stats` `s` JOIN `fighter_aliases` `a` ON `a`.`alias` = REGEXP_REPLACE(LOWER(TRIM(`s`.`fighterName`)), '[[:space:]]+', ' ')
+SET `s`.`fighterId` = `a`.`fighterId`;
@@ -0,0 +1,12 @@
+ALTER TABLE `fighters` ADD `imageUrl` text;--> statement-breakpoint
+ALTER TABLE `fighters` ADD `nickname` varchar(64);--> statement-breakpoint
+ALTER TABLE `fighters` ADD `nationality` varchar(64);--> statement-breakpoint
+ALTER TABLE `fighters` ADD `record` varchar(32);--> statement-breakpoint
+ALTER TABLE `fighters` ADD `ranking` varchar(16);--> statement-breakpoint
+ALTER TABLE `fighters` ADD `recentResults` text;--> statement-breakpoint
+ALTER TABLE `fighters` ADD `profileStatus` enum('pending','synced','not_found','failed') DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE `fighters` ADD `profileSyncedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `fighters` ADD `profileAttemptedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `fighters` ADD `profileFailures` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `fighters` ADD `profileError` text;--> statement-breakpoint
+CREATE INDEX `fighters_profile_attempted_idx` ON `fighters` (`profileAttemptedAt`);
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `odds_snapshots` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`fightId` int NOT NULL,
+	`oddsApiEventId` varchar(255),
+	`bookmaker` varchar(64) NOT NULL,
+	`market` varchar(32) NOT NULL,
+	`odds1` int NOT NULL,
+	`odds2` int NOT NULL,
+	`bookmakerUpdatedAt` timestamp,
+	`capturedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `odds_snapshots_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `fights` ADD `openingOdds1` int;--> statement-breakpoint
+ALTER TABLE `fights` ADD `openingOdds2` int;--> statement-breakpoint
+ALTER TABLE `fights` ADD `openingOddsAt` timestamp;--> statement-breakpoint
+ALTER TABLE `fights` ADD `closingOdds1` int;--> statement-breakpoint
+ALTER TABLE `fights` ADD `closingOdds2` int;--> statement-breakpoint
+ALTER TABLE `fights` ADD `closingOddsAt` timestamp;--> statement-breakpoint
+ALTER TABLE `predictions` ADD `oddsSnapshotId` int;--> statement-breakpoint
+CREATE INDEX `odds_snapshots_fight_idx` ON `odds_snapshots` (`fightId`,`bookmaker`,`capturedAt`);--> statement-breakpoint
+-- Backfill: the odds existing fights already have are their opening line, and their closing line once locked
+UPDATE `fights` SET `openingOdds1` = `odds1`, `openingOdds2` = `odds2`, `openingOddsAt` = COALESCE(`oddsUpdatedAt`, `createdAt`)
+WHERE `odds1` IS NOT NULL AND `odds2` IS NOT NULL;--> statement-breakpoint
+UPDATE `fights` SET `closingOdds1` = `odds1`, `closingOdds2` = `odds2`, `closingOddsAt` = COALESCE(`oddsUpdatedAt`, `createdAt`)
+WHERE `odds1` IS NOT NULL AND `odds2` IS NOT NULL AND (`lockedAt` IS NOT NULL OR `status` <> 'upcoming');
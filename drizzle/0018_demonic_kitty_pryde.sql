@@ -0,0 +1,12 @@
+ALTER TABLE `predictions` ADD `closingLineValue` double;--> statement-breakpoint
+-- Backfill: scored picks priced at prediction time against their fight's closing line (as getClosingLineValue).
+-- First the picked side's closing odds, then converted to the value in place.
+UPDATE `predictions` `p` JOIN `fights` `f` ON `f`.`id` = `p`.`fightId`
+SET `p`.`closingLineValue` = CASE
+	WHEN `p`.`pickedWinnerId` = `f`.`fighter1Id` OR (`p`.`pickedWinnerId` IS NULL AND `p`.`pickedWinner` = `f`.`fighter1Name`) THEN `f`.`closingOdds1`
+	ELSE `f`.`closingOdds2`
+END
+WHERE `p`.`status` IN ('correct', 'wrong', 'partial') AND `p`.`oddsAtPrediction` IS NOT NULL;--> statement-breakpoint
+UPDATE `predictions`
+SET `closingLineValue` = ROUND(((CASE WHEN `closingLineValue` > 0 THEN 100 / (`closingLineValue` + 100) ELSE -`closingLineValue` / (-`closingLineValue` + 100) END) / (CASE WHEN `oddsAtPrediction` > 0 THEN 100 / (`oddsAtPrediction` + 100) ELSE -`oddsAtPrediction` / (-`oddsAtPrediction` + 100) END) - 1) * 100, 1)
+WHERE `closingLineValue` IS NOT NULL;
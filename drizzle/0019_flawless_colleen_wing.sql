@@ -0,0 +1,9 @@
+ALTER TABLE `predictions` ADD `opponentOddsAtPrediction` int;--> statement-breakpoint
+-- Backfill: the opponent's price from the snapshot a pick was priced from, where it has one
+UPDATE `predictions` `p`
+JOIN `fights` `f` ON `f`.`id` = `p`.`fightId`
+JOIN `odds_snapshots` `s` ON `s`.`id` = `p`.`oddsSnapshotId`
+SET `p`.`opponentOddsAtPrediction` = CASE
+	WHEN `p`.`pickedWinnerId` = `f`.`fighter1Id` OR (`p`.`pickedWinnerId` IS NULL AND `p`.`pickedWinner` = `f`.`fighter1Name`) THEN `s`.`odds2`
+	ELSE `s`.`odds1`
+END;
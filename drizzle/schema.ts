@@ -1,10 +1,13 @@
 import {
   boolean,
+  double,
+  index,
   int,
   mysqlEnum,
   mysqlTable,
   text,
   timestamp,
+  uniqueIndex,
   varchar,
 } from "drizzle-orm/mysql-core";
 
@@ -28,6 +31,8 @@ export const userProfiles = mysqlTable("user_profiles", {
   username: varchar("username", { length: 64 }).notNull().unique(),
   displayName: varchar("displayName", { length: 128 }),
   credibilityScore: int("credibilityScore").default(0).notNull(),
+  // Recency-weighted 0-100 score (older picks decay by the rule set's half-life)
+  recentCredibilityScore: int("recentCredibilityScore").default(0).notNull(),
   tier: mysqlEnum("tier", ["rookie", "contender", "champion", "goat"])
     .default("rookie")
     .notNull(),
@@ -43,7 +48,11 @@ export const userProfiles = mysqlTable("user_profiles", {
   bestStreak: int("bestStreak").default(0).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, (t) => [
+  // Leaderboard keyset pagination and rank counting: (score DESC, userId ASC)
+  index("user_profiles_score_idx").on(t.credibilityScore, t.userId),
+  index("user_profiles_recent_score_idx").on(t.recentCredibilityScore, t.userId),
+]);
 
 // ─── UFC Events ───────────────────────────────────────────────────────────────
 export const events = mysqlTable("events", {
@@ -60,10 +69,48 @@ export const events = mysqlTable("events", {
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
 
+// ─── Fighters ─────────────────────────────────────────────────────────────────
+// Canonical fighter identity; fights, predictions and fighter stats reference
+// these ids so a spelling change never breaks a result comparison.
+export const fighters = mysqlTable("fighters", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 128 }).notNull(), // canonical display name
+  ufcSlug: varchar("ufcSlug", { length: 128 }).unique(), // ufc.com/athlete/{slug}
+  espnAthleteId: varchar("espnAthleteId", { length: 32 }).unique(),
+  // Profile synced from UFC.com (see fighter-sync.ts)
+  imageUrl: text("imageUrl"),
+  nickname: varchar("nickname", { length: 64 }),
+  nationality: varchar("nationality", { length: 64 }),
+  record: varchar("record", { length: 32 }),
+  ranking: varchar("ranking", { length: 16 }),
+  recentResults: text("recentResults"), // JSON array of last 5 results
+  profileStatus: mysqlEnum("profileStatus", ["pending", "synced", "not_found", "failed"]).default("pending").notNull(),
+  profileSyncedAt: timestamp("profileSyncedAt"), // last successful sync
+  profileAttemptedAt: timestamp("profileAttemptedAt"),
+  profileFailures: int("profileFailures").default(0).notNull(), // consecutive failed attempts
+  profileError: text("profileError"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (t) => [
+  index("fighters_profile_attempted_idx").on(t.profileAttemptedAt),
+]);
+
+// Every spelling a fighter is known by (including the canonical name), normalized
+// with normalizeFighterName — name lookups go through here
+export const fighterAliases = mysqlTable("fighter_aliases", {
+  id: int("id").autoincrement().primaryKey(),
+  fighterId: int("fighterId").notNull(),
+  alias: varchar("alias", { length: 128 }).notNull().unique(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (t) => [
+  index("fighter_aliases_fighter_idx").on(t.fighterId),
+]);
+
 // ─── Fights ───────────────────────────────────────────────────────────────────
 export const fights = mysqlTable("fights", {
   id: int("id").autoincrement().primaryKey(),
   eventId: int("eventId").notNull(),
+  fighter1Id: int("fighter1Id"),
   fighter1Name: varchar("fighter1Name", { length: 128 }).notNull(),
   fighter1Record: varchar("fighter1Record", { length: 32 }),
   fighter1ImageUrl: text("fighter1ImageUrl"),
@@ -71,6 +118,7 @@ export const fights = mysqlTable("fights", {
   fighter1Nickname: varchar("fighter1Nickname", { length: 64 }),
   fighter1RecentResults: text("fighter1RecentResults"), // JSON array of last 5 results
   fighter1Ranking: varchar("fighter1Ranking", { length: 16 }),
+  fighter2Id: int("fighter2Id"),
   fighter2Name: varchar("fighter2Name", { length: 128 }).notNull(),
   fighter2Record: varchar("fighter2Record", { length: 32 }),
   fighter2ImageUrl: text("fighter2ImageUrl"),
@@ -85,34 +133,68 @@ export const fights = mysqlTable("fights", {
   odds1: int("odds1"),
   odds2: int("odds2"),
   oddsUpdatedAt: timestamp("oddsUpdatedAt"),
+  // First synced consensus line, and the line when predictions closed (see odds_snapshots)
+  openingOdds1: int("openingOdds1"),
+  openingOdds2: int("openingOdds2"),
+  openingOddsAt: timestamp("openingOddsAt"),
+  closingOdds1: int("closingOdds1"),
+  closingOdds2: int("closingOdds2"),
+  closingOddsAt: timestamp("closingOddsAt"),
   status: mysqlEnum("status", ["upcoming", "live", "completed", "cancelled"]).default("upcoming").notNull(),
   scheduledStartTime: timestamp("scheduledStartTime"),
+  lockedAt: timestamp("lockedAt"), // set when predictions close (see fight-locks.ts)
   winner: varchar("winner", { length: 128 }),
+  winnerId: int("winnerId"), // null for draws and no contests
   finishType: mysqlEnum("finishType", ["finish", "decision"]),
   method: mysqlEnum("method", ["tko_ko", "submission", "decision", "draw", "nc"]),
   round: int("round"),
   fightTime: varchar("fightTime", { length: 16 }),
+  methodDetail: varchar("methodDetail", { length: 128 }), // source wording, e.g. "Submission (Rear-Naked Choke)"
+  decisionType: mysqlEnum("decisionType", ["unanimous", "split", "majority"]),
+  referee: varchar("referee", { length: 128 }),
   oddsApiEventId: varchar("oddsApiEventId", { length: 255 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
 
+// ─── Odds History ─────────────────────────────────────────────────────────────
+// Every price the odds sync saw for a fight: one row per bookmaker and market,
+// plus the "consensus" row written to fights.odds1/odds2. Odds are oriented to
+// our fighter1/fighter2.
+export const oddsSnapshots = mysqlTable("odds_snapshots", {
+  id: int("id").autoincrement().primaryKey(),
+  fightId: int("fightId").notNull(),
+  oddsApiEventId: varchar("oddsApiEventId", { length: 255 }),
+  bookmaker: varchar("bookmaker", { length: 64 }).notNull(), // Odds API bookmaker key, or "consensus"
+  market: varchar("market", { length: 32 }).notNull(),
+  odds1: int("odds1").notNull(),
+  odds2: int("odds2").notNull(),
+  bookmakerUpdatedAt: timestamp("bookmakerUpdatedAt"), // the bookmaker's own last_update
+  capturedAt: timestamp("capturedAt").defaultNow().notNull(),
+}, (t) => [
+  index("odds_snapshots_fight_idx").on(t.fightId, t.bookmaker, t.capturedAt),
+]);
+
 // ─── Predictions ──────────────────────────────────────────────────────────────
 export const predictions = mysqlTable("predictions", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
   fightId: int("fightId").notNull(),
   pickedWinner: varchar("pickedWinner", { length: 128 }).notNull(),
+  pickedWinnerId: int("pickedWinnerId"),
   pickedFinishType: mysqlEnum("pickedFinishType", ["finish", "decision"]),
   pickedMethod: mysqlEnum("pickedMethod", ["tko_ko", "submission"]),
   isLocked: boolean("isLocked").default(false).notNull(),
-  status: mysqlEnum("status", ["pending", "correct", "wrong", "partial"]).default("pending").notNull(),
+  status: mysqlEnum("status", ["pending", "correct", "wrong", "partial", "void"]).default("pending").notNull(),
   winnerPoints: int("winnerPoints").default(0).notNull(),
   finishTypePoints: int("finishTypePoints").default(0).notNull(),
   methodPoints: int("methodPoints").default(0).notNull(),
   bonusPoints: int("bonusPoints").default(0).notNull(),
   totalPoints: int("totalPoints").default(0).notNull(),
   oddsAtPrediction: int("oddsAtPrediction"),
+  opponentOddsAtPrediction: int("opponentOddsAtPrediction"), // the other side's price, for vig-free probabilities
+  oddsSnapshotId: int("oddsSnapshotId"), // consensus snapshot oddsAtPrediction was taken from
+  closingLineValue: double("closingLineValue"), // % the pick's price beat the closing line by (set when scored)
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -121,12 +203,15 @@ export const predictions = mysqlTable("predictions", {
 export const userFighterStats = mysqlTable("user_fighter_stats", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
+  fighterId: int("fighterId"),
   fighterName: varchar("fighterName", { length: 128 }).notNull(),
   totalPicks: int("totalPicks").default(0).notNull(),
   correctPicks: int("correctPicks").default(0).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, (t) => [
+  index("user_fighter_stats_fighter_idx").on(t.fighterId),
+]);
 
 // ─── Credibility Log ──────────────────────────────────────────────────────────
 export const credibilityLog = mysqlTable("credibility_log", {
@@ -140,9 +225,181 @@ export const credibilityLog = mysqlTable("credibility_log", {
   bonusPoints: int("bonusPoints").default(0).notNull(),
   totalPoints: int("totalPoints").default(0).notNull(),
   breakdown: text("breakdown"),
+  // "void" rows record a pick voided by a no contest, draw (per policy) or cancellation — no score impact
+  status: mysqlEnum("status", ["scored", "void"]).default("scored").notNull(),
+  // Scoring rule version that produced this row (null = pre-versioning defaults, i.e. version 1)
+  ruleVersion: int("ruleVersion"),
+  // Set when a result correction reverses this entry; reversed rows no longer count
+  reversedAt: timestamp("reversedAt"),
+  correctionId: int("correctionId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// ─── Seasons ──────────────────────────────────────────────────────────────────
+export const seasons = mysqlTable("seasons", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 128 }).notNull(),
+  startsAt: timestamp("startsAt").notNull(),
+  endsAt: timestamp("endsAt").notNull(),
+  finalizedAt: timestamp("finalizedAt"), // set once final standings have been snapshotted
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// ─── Season Standings (end-of-season snapshot) ────────────────────────────────
+export const seasonStandings = mysqlTable("season_standings", {
+  id: int("id").autoincrement().primaryKey(),
+  seasonId: int("seasonId").notNull(),
+  userId: int("userId").notNull(),
+  rank: int("rank").notNull(),
+  points: int("points").default(0).notNull(),
+  totalPicks: int("totalPicks").default(0).notNull(),
+  correctPicks: int("correctPicks").default(0).notNull(),
+  score: int("score").default(0).notNull(), // normalized 0-100 score over the season's picks only
+  tier: mysqlEnum("tier", ["rookie", "contender", "champion", "goat"]).default("rookie").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (t) => [
+  uniqueIndex("season_standings_season_user_idx").on(t.seasonId, t.userId),
+  index("season_standings_season_rank_idx").on(t.seasonId, t.rank),
+]);
+
+// ─── Materialized Leaderboard Ranks ───────────────────────────────────────────
+// One row per user per leaderboard scope. "global"/"global_recent" rank on the
+// normalized profile scores (scopeId 0); "event" and "season" rank on points
+// earned within that event or season window (scopeId = event/season id).
+export const leaderboardRanks = mysqlTable("leaderboard_ranks", {
+  id: int("id").autoincrement().primaryKey(),
+  scope: mysqlEnum("scope", ["global", "global_recent", "event", "season"]).notNull(),
+  scopeId: int("scopeId").default(0).notNull(),
+  userId: int("userId").notNull(),
+  rank: int("rank").default(0).notNull(),
+  score: int("score").default(0).notNull(),
+  totalPicks: int("totalPicks").default(0).notNull(),
+  correctPicks: int("correctPicks").default(0).notNull(),
+  partialPicks: int("partialPicks").default(0).notNull(),
+  perfectPicks: int("perfectPicks").default(0).notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (t) => [
+  uniqueIndex("leaderboard_ranks_scope_user_idx").on(t.scope, t.scopeId, t.userId),
+  index("leaderboard_ranks_scope_rank_idx").on(t.scope, t.scopeId, t.rank),
+  index("leaderboard_ranks_scope_updated_idx").on(t.scope, t.scopeId, t.updatedAt),
+]);
+
+// ─── Scoring Rule Versions ────────────────────────────────────────────────────
+export const scoringRuleVersions = mysqlTable("scoring_rule_versions", {
+  id: int("id").autoincrement().primaryKey(),
+  version: int("version").notNull().unique(),
+  rules: text("rules").notNull(), // JSON ScoringRules
+  notes: text("notes"),
+  status: mysqlEnum("status", ["draft", "active", "retired"]).default("draft").notNull(),
+  activatedAt: timestamp("activatedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// ─── Fight Result Corrections (audit trail) ───────────────────────────────────
+export const fightResultCorrections = mysqlTable("fight_result_corrections", {
+  id: int("id").autoincrement().primaryKey(),
+  fightId: int("fightId").notNull(),
+  previousWinner: varchar("previousWinner", { length: 128 }),
+  previousFinishType: mysqlEnum("previousFinishType", ["finish", "decision"]),
+  previousMethod: mysqlEnum("previousMethod", ["tko_ko", "submission", "decision", "draw", "nc"]),
+  newWinner: varchar("newWinner", { length: 128 }).notNull(),
+  newFinishType: mysqlEnum("newFinishType", ["finish", "decision"]).notNull(),
+  newMethod: mysqlEnum("newMethod", ["tko_ko", "submission", "decision", "draw", "nc"]).notNull(),
+  reason: text("reason"),
+  changes: text("changes"), // JSON array of per-user changes
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// ─── Automatic Result Pipeline ────────────────────────────────────────────────
+// Results entered by admins (upload) for the "manual" results provider
+export const manualResults = mysqlTable("manual_results", {
+  id: int("id").autoincrement().primaryKey(),
+  fightId: int("fightId"), // optional — otherwise matched on fighter names
+  fighter1Name: varchar("fighter1Name", { length: 128 }).notNull(),
+  fighter2Name: varchar("fighter2Name", { length: 128 }).notNull(),
+  status: mysqlEnum("status", ["completed", "cancelled"]).default("completed").notNull(),
+  winner: varchar("winner", { length: 128 }), // empty for draws and no contests
+  method: mysqlEnum("method", ["tko_ko", "submission", "decision", "draw", "nc"]),
+  methodText: varchar("methodText", { length: 128 }),
+  round: int("round"),
+  fightTime: varchar("fightTime", { length: 16 }),
+  referee: varchar("referee", { length: 128 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
+// Automatic results held back for an admin instead of being applied
+export const resultReviews = mysqlTable("result_reviews", {
+  id: int("id").autoincrement().primaryKey(),
+  fightId: int("fightId").notNull(),
+  status: mysqlEnum("status", ["pending", "approved", "rejected"]).default("pending").notNull(),
+  reason: varchar("reason", { length: 255 }).notNull(),
+  // Proposed result (from the highest-priority provider)
+  proposedStatus: mysqlEnum("proposedStatus", ["completed", "cancelled"]).default("completed").notNull(),
+  winner: varchar("winner", { length: 128 }),
+  finishType: mysqlEnum("finishType", ["finish", "decision"]),
+  method: mysqlEnum("method", ["tko_ko", "submission", "decision", "draw", "nc"]),
+  providerResults: text("providerResults").notNull(), // JSON of every provider's result
+  confidence: int("confidence"), // 0-100 match confidence of the proposed result
+  rawPayload: text("rawPayload"), // JSON of each provider's raw source data
+  note: text("note"), // admin note on edit/reject
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  reviewedAt: timestamp("reviewedAt"),
+}, (t) => [
+  index("result_reviews_fight_idx").on(t.fightId, t.status),
+  index("result_reviews_status_idx").on(t.status, t.createdAt),
+]);
+
+// ─── Background Jobs ──────────────────────────────────────────────────────────
+// Durable job queue worked by the leader instance (see server/job-queue.ts).
+// dedupeKey is only set while a job is pending/running, so at most one active
+// job exists per key.
+export const jobs = mysqlTable("jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 64 }).notNull(),
+  payload: text("payload"), // JSON
+  status: mysqlEnum("status", ["pending", "running", "succeeded", "failed"]).default("pending").notNull(),
+  dedupeKey: varchar("dedupeKey", { length: 128 }).unique(),
+  runAt: timestamp("runAt").defaultNow().notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(5).notNull(),
+  lockedBy: varchar("lockedBy", { length: 128 }),
+  lockedUntil: timestamp("lockedUntil"),
+  lastError: text("lastError"),
+  result: text("result"), // JSON of the last successful run
+  finishedAt: timestamp("finishedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (t) => [
+  index("jobs_status_run_at_idx").on(t.status, t.runAt),
+  index("jobs_name_idx").on(t.name, t.createdAt),
+]);
+
+// One row per attempt at running a job
+export const jobRuns = mysqlTable("job_runs", {
+  id: int("id").autoincrement().primaryKey(),
+  jobId: int("jobId").notNull(),
+  name: varchar("name", { length: 64 }).notNull(),
+  attempt: int("attempt").notNull(),
+  workerId: varchar("workerId", { length: 128 }).notNull(),
+  status: mysqlEnum("status", ["running", "succeeded", "failed"]).default("running").notNull(),
+  result: text("result"), // JSON
+  error: text("error"),
+  startedAt: timestamp("startedAt").defaultNow().notNull(),
+  finishedAt: timestamp("finishedAt"),
+  durationMs: int("durationMs"),
+}, (t) => [
+  index("job_runs_job_idx").on(t.jobId),
+  index("job_runs_name_idx").on(t.name, t.startedAt),
+]);
+
+// Named leases — "jobs.leader" decides which instance works the queue
+export const workerLeases = mysqlTable("worker_leases", {
+  name: varchar("name", { length: 64 }).primaryKey(),
+  holder: varchar("holder", { length: 128 }).notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
@@ -150,9 +407,28 @@ export type UserProfile = typeof userProfiles.$inferSelect;
 export type InsertUserProfile = typeof userProfiles.$inferInsert;
 export type Event = typeof events.$inferSelect;
 export type InsertEvent = typeof events.$inferInsert;
+export type Fighter = typeof fighters.$inferSelect;
+export type InsertFighter = typeof fighters.$inferInsert;
+export type FighterAlias = typeof fighterAliases.$inferSelect;
 export type Fight = typeof fights.$inferSelect;
 export type InsertFight = typeof fights.$inferInsert;
+export type OddsSnapshot = typeof oddsSnapshots.$inferSelect;
+export type InsertOddsSnapshot = typeof oddsSnapshots.$inferInsert;
 export type Prediction = typeof predictions.$inferSelect;
 export type InsertPrediction = typeof predictions.$inferInsert;
 export type UserFighterStat = typeof userFighterStats.$inferSelect;
 export type CredibilityLog = typeof credibilityLog.$inferSelect;
+export type Season = typeof seasons.$inferSelect;
+export type SeasonStanding = typeof seasonStandings.$inferSelect;
+export type InsertSeasonStanding = typeof seasonStandings.$inferInsert;
+export type LeaderboardRank = typeof leaderboardRanks.$inferSelect;
+export type InsertLeaderboardRank = typeof leaderboardRanks.$inferInsert;
+export type ScoringRuleVersion = typeof scoringRuleVersions.$inferSelect;
+export type FightResultCorrection = typeof fightResultCorrections.$inferSelect;
+export type ManualResult = typeof manualResults.$inferSelect;
+export type InsertManualResult = typeof manualResults.$inferInsert;
+export type ResultReview = typeof resultReviews.$inferSelect;
+export type InsertResultReview = typeof resultReviews.$inferInsert;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type JobRun = typeof jobRuns.$inferSelect;
@@ -8,4 +8,40 @@ export const ENV = {
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
   adminToken: process.env.ADMIN_TOKEN ?? "",
+  drawPolicy: (process.env.DRAW_POLICY === "wrong" ? "wrong" : "void") as "void" | "wrong",
+  // Predictions close this many minutes before a fight's scheduled start
+  predictionLockBufferMinutes: Number(process.env.PREDICTION_LOCK_BUFFER_MINUTES ?? 5),
+  // "card" locks every fight on a card once its first fight is due; "fight" locks each fight on its own
+  predictionLockScope: (process.env.PREDICTION_LOCK_SCOPE === "card" ? "card" : "fight") as "fight" | "card",
+  // Result poller cadence: fast while a card is live or about to start, slow otherwise
+  pollFastIntervalSeconds: Number(process.env.POLL_FAST_INTERVAL_SECONDS ?? 45),
+  pollSlowIntervalMinutes: Number(process.env.POLL_SLOW_INTERVAL_MINUTES ?? 30),
+  pollLookaheadMinutes: Number(process.env.POLL_LOOKAHEAD_MINUTES ?? 60),
+  // Results providers in priority order, plus their sources (see server/results/)
+  resultsProviders: (process.env.RESULTS_PROVIDERS ?? "espn,ufc,manual").split(",").map((s) => s.trim()).filter(Boolean),
+  manualResultsFile: process.env.MANUAL_RESULTS_FILE ?? "",
+  ufcLiveFeedUrl: process.env.UFC_LIVE_FEED_URL ?? "https://d29dxerjsp82wz.cloudfront.net/api/v3/event/live",
+  // Serve ESPN responses from recorded files ("replay") or save live ones there ("record")
+  espnFixtureDir: process.env.ESPN_FIXTURE_DIR ?? "",
+  espnFixtureMode: (process.env.ESPN_FIXTURE_MODE === "record" ? "record" : "replay") as "replay" | "record",
+  // Automatic results matched with less confidence than this (0-1) are held for review
+  resultConfidenceThreshold: Number(process.env.RESULT_CONFIDENCE_THRESHOLD ?? 0.8),
+  // Fighter profile sync: staleness (fighters on a card in the next week refresh sooner),
+  // retry delay after a failure, and the per-run batch and request spacing
+  fighterProfileMaxAgeHours: Number(process.env.FIGHTER_PROFILE_MAX_AGE_HOURS ?? 168),
+  fighterProfileCardMaxAgeHours: Number(process.env.FIGHTER_PROFILE_CARD_MAX_AGE_HOURS ?? 24),
+  fighterProfileRetryMinutes: Number(process.env.FIGHTER_PROFILE_RETRY_MINUTES ?? 60),
+  fighterSyncBatchSize: Number(process.env.FIGHTER_SYNC_BATCH_SIZE ?? 25),
+  fighterSyncRequestIntervalMs: Number(process.env.FIGHTER_SYNC_REQUEST_INTERVAL_MS ?? 1000),
+  // The Odds API: the odds sync writes consensus prices onto upcoming fights starting
+  // within the horizon, every interval
+  oddsApiKey: process.env.ODDS_API_KEY ?? "",
+  oddsSyncIntervalMinutes: Number(process.env.ODDS_SYNC_INTERVAL_MINUTES ?? 120),
+  oddsSyncHorizonDays: Number(process.env.ODDS_SYNC_HORIZON_DAYS ?? 14),
+  // Odds API responses are cached; with little quota left the cache is kept longer,
+  // and at the reserve only the odds sync may spend requests (see server/odds/api.ts)
+  oddsCacheTtlSeconds: Number(process.env.ODDS_CACHE_TTL_SECONDS ?? 300),
+  oddsLowQuotaTtlMinutes: Number(process.env.ODDS_LOW_QUOTA_TTL_MINUTES ?? 60),
+  oddsQuotaLow: Number(process.env.ODDS_QUOTA_LOW ?? 100),
+  oddsQuotaReserve: Number(process.env.ODDS_QUOTA_RESERVE ?? 20),
 };
@@ -8,7 +8,8 @@ import { registerOAuthRoutes } from "./oauth";
 import { registerSocialAuthRoutes } from "./social-auth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
-import { startResultPoller } from "../result-poller";
+import { ensureLeaderboardRanks } from "../leaderboard-ranks";
+import { startBackgroundJobs } from "../jobs";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise((resolve) => {
@@ -95,8 +96,9 @@ async function startServer() {
 
   server.listen(port, () => {
     console.log(`[api] server listening on port ${port}`);
-    // Start the automated fight result poller after server is ready
-    startResultPoller();
+    // Start the background job worker (result polling, auto-locking, ...) after server is ready
+    startBackgroundJobs();
+    ensureLeaderboardRanks().catch((error) => console.error("[Ranks] Initial build failed:", error));
   });
 }
 
@@ -1,26 +1,60 @@
-import { and, count, desc, eq, inArray, sql } from "drizzle-orm";
+import { and, asc, between, count, desc, eq, gt, gte, inArray, isNotNull, isNull, like, lt, lte, ne, notInArray, or, sql, type SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import {
   credibilityLog,
   events,
+  fightResultCorrections,
+  fighterAliases,
+  fighters,
   fights,
+  jobRuns,
+  jobs,
+  leaderboardRanks,
+  manualResults,
+  oddsSnapshots,
   predictions,
+  resultReviews,
+  scoringRuleVersions,
+  seasonStandings,
+  seasons,
   userFighterStats,
   userProfiles,
   users,
+  workerLeases,
   type Event,
   type Fight,
+  type Fighter,
+  type FightResultCorrection,
   type InsertEvent,
   type InsertFight,
+  type InsertJob,
+  type InsertManualResult,
+  type InsertOddsSnapshot,
   type InsertPrediction,
+  type InsertResultReview,
   type InsertUser,
   type InsertUserProfile,
+  type Job,
+  type JobRun,
+  type LeaderboardRank,
+  type ManualResult,
+  type OddsSnapshot,
   type Prediction,
+  type ResultReview,
+  type InsertSeasonStanding,
+  type ScoringRuleVersion,
+  type Season,
   type UserProfile,
 } from "../drizzle/schema";
+import { calcNormalizedCredScore, DEFAULT_SCORING_RULES, getRecencyWeight, isPickedWinner, type DecisionType, type ScoringRules } from "../shared/types";
 import { ENV } from "./_core/env";
 
-let _db: ReturnType<typeof drizzle> | null = null;
+type Database = ReturnType<typeof drizzle>;
+export type DbTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+/** Either the shared connection or an open transaction — accepted by helpers that may run inside one. */
+export type DbExecutor = Database | DbTransaction;
+
+let _db: Database | null = null;
 
 export async function getDb() {
   if (!_db && process.env.DATABASE_URL) {
@@ -62,271 +96,1842 @@ export async function upsertUser(user: InsertUser): Promise<void> {
   } catch (error) { console.error("[Database] Failed to upsert user:", error); throw error; }
 }
 
-export async function getUserByOpenId(openId: string) {
-  const db = await getDb();
-  if (!db) { console.warn("[Database] Cannot get user: database not available"); return undefined; }
-  const result = await db.select().from(users).where(eq(users.openId, openId)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+export async function getUserByOpenId(openId: string) {
+  const db = await getDb();
+  if (!db) { console.warn("[Database] Cannot get user: database not available"); return undefined; }
+  const result = await db.select().from(users).where(eq(users.openId, openId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// ─── User Profiles ────────────────────────────────────────────────────────────
+
+export async function getUserProfile(userId: number, conn?: DbExecutor): Promise<UserProfile | null> {
+  const db = conn ?? (await getDb());
+  if (!db) return null;
+  const rows = await db.select().from(userProfiles).where(eq(userProfiles.userId, userId));
+  return rows[0] ?? null;
+}
+
+export async function getProfileByUsername(username: string): Promise<UserProfile | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const rows = await db.select().from(userProfiles).where(eq(userProfiles.username, username));
+  return rows[0] ?? null;
+}
+
+export async function createUserProfile(data: InsertUserProfile): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(userProfiles).values(data);
+  return result[0].insertId;
+}
+
+export async function updateUserProfile(userId: number, data: Partial<InsertUserProfile>, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.update(userProfiles).set(data).where(eq(userProfiles.userId, userId));
+}
+
+export async function getProfileUserIds(): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db.select({ userId: userProfiles.userId }).from(userProfiles).orderBy(userProfiles.userId);
+  return rows.map((r) => r.userId);
+}
+
+export type LeaderboardMode = "allTime" | "recent";
+
+function globalRankScope(mode: LeaderboardMode): RankScope {
+  return mode === "recent" ? "global_recent" : "global";
+}
+
+export async function getLeaderboard(limit = 50, mode: LeaderboardMode = "allTime") {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .select({ rank: leaderboardRanks.rank, profile: userProfiles })
+    .from(leaderboardRanks)
+    .innerJoin(userProfiles, eq(leaderboardRanks.userId, userProfiles.userId))
+    .where(inRankScope(globalRankScope(mode), 0))
+    .orderBy(asc(leaderboardRanks.rank))
+    .limit(limit);
+  return rows.map(({ rank, profile }) => ({ ...profile, rank }));
+}
+
+/** When the global leaderboard for a mode last changed. */
+export async function getLeaderboardUpdatedAt(mode: LeaderboardMode): Promise<Date | null> {
+  return getRankScopeUpdatedAt(globalRankScope(mode), 0);
+}
+
+// ─── Paged Leaderboard ────────────────────────────────────────────────────────
+// Pages are read from the materialized global ranks (see leaderboard_ranks);
+// the cursor is the rank of the last row on the previous page.
+
+export function encodeLeaderboardCursor(rank: number): string {
+  return String(rank);
+}
+
+export function decodeLeaderboardCursor(raw: string): number {
+  const rank = Number(raw);
+  if (!Number.isInteger(rank) || rank < 0) throw new Error("Invalid leaderboard cursor");
+  return rank;
+}
+
+/**
+ * One page of the global leaderboard. With a search term, only usernames
+ * starting with it are returned and each row still carries its global rank.
+ */
+export async function getLeaderboardPage(options: {
+  mode: LeaderboardMode;
+  limit: number;
+  cursor?: string;
+  search?: string;
+}) {
+  const db = await getDb();
+  if (!db) return { items: [], nextCursor: null, updatedAt: null };
+
+  const scope = globalRankScope(options.mode);
+  const conditions: SQL[] = [inRankScope(scope, 0)];
+  if (options.cursor) conditions.push(gt(leaderboardRanks.rank, decodeLeaderboardCursor(options.cursor)));
+  if (options.search) {
+    const escaped = options.search.replace(/[\\%_]/g, (c) => `\\${c}`);
+    conditions.push(like(userProfiles.username, `${escaped}%`));
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const [rows, updatedAt] = await Promise.all([
+    db
+      .select({ rank: leaderboardRanks.rank, profile: userProfiles })
+      .from(leaderboardRanks)
+      .innerJoin(userProfiles, eq(leaderboardRanks.userId, userProfiles.userId))
+      .where(and(...conditions))
+      .orderBy(asc(leaderboardRanks.rank))
+      .limit(options.limit + 1),
+    getRankScopeUpdatedAt(scope, 0),
+  ]);
+
+  const page = rows.slice(0, options.limit);
+  const last = page[page.length - 1];
+  return {
+    items: page,
+    nextCursor: rows.length > options.limit && last ? encodeLeaderboardCursor(last.rank) : null,
+    updatedAt,
+  };
+}
+
+/** A user's rank plus the profiles immediately above and below them. */
+export async function getLeaderboardNeighborhood(userId: number, mode: LeaderboardMode, neighbors: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const scope = globalRankScope(mode);
+  const [me] = await db
+    .select({ rank: leaderboardRanks.rank, profile: userProfiles })
+    .from(leaderboardRanks)
+    .innerJoin(userProfiles, eq(leaderboardRanks.userId, userProfiles.userId))
+    .where(and(inRankScope(scope, 0), eq(leaderboardRanks.userId, userId)));
+  if (!me) return null;
+
+  const [nearby, updatedAt] = await Promise.all([
+    db
+      .select({ rank: leaderboardRanks.rank, profile: userProfiles })
+      .from(leaderboardRanks)
+      .innerJoin(userProfiles, eq(leaderboardRanks.userId, userProfiles.userId))
+      .where(and(
+        inRankScope(scope, 0),
+        between(leaderboardRanks.rank, me.rank - neighbors, me.rank + neighbors),
+        ne(leaderboardRanks.userId, userId),
+      ))
+      .orderBy(asc(leaderboardRanks.rank)),
+    getRankScopeUpdatedAt(scope, 0),
+  ]);
+
+  return {
+    rank: me.rank,
+    profile: me.profile,
+    above: nearby.filter((row) => row.rank < me.rank),
+    below: nearby.filter((row) => row.rank > me.rank),
+    updatedAt,
+  };
+}
+
+// ─── Materialized Leaderboard Ranks ───────────────────────────────────────────
+// leaderboard_ranks holds one row per user per scope. Writers replace the rows
+// of the users they touched and re-rank the scope in SQL; readers page by rank.
+
+export type RankScope = LeaderboardRank["scope"];
+
+export interface RankSourceRow {
+  userId: number;
+  score: number;
+  totalPicks: number;
+  correctPicks: number;
+  partialPicks?: number;
+  perfectPicks?: number;
+}
+
+function inRankScope(scope: RankScope, scopeId: number) {
+  return and(eq(leaderboardRanks.scope, scope), eq(leaderboardRanks.scopeId, scopeId))!;
+}
+
+/** Take an upserted column's value from the incoming row (ON DUPLICATE KEY UPDATE). */
+function incoming(column: string) {
+  return sql.raw(`VALUES(\`${column}\`)`);
+}
+
+/**
+ * Write rank rows for a scope and re-rank it, in one transaction. With
+ * userIds only those users' rows are replaced — any of them missing from
+ * `rows` leave the scope. Without userIds the whole scope is replaced.
+ */
+export async function writeScopeRanks(scope: RankScope, scopeId: number, rows: RankSourceRow[], userIds?: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    if (userIds) {
+      const present = new Set(rows.map((r) => r.userId));
+      const gone = userIds.filter((id) => !present.has(id));
+      if (gone.length > 0) {
+        await tx.delete(leaderboardRanks).where(and(inRankScope(scope, scopeId), inArray(leaderboardRanks.userId, gone)));
+      }
+    } else {
+      await tx.delete(leaderboardRanks).where(inRankScope(scope, scopeId));
+    }
+
+    for (let i = 0; i < rows.length; i += 500) {
+      await tx
+        .insert(leaderboardRanks)
+        .values(rows.slice(i, i + 500).map((row) => ({ ...row, scope, scopeId })))
+        .onDuplicateKeyUpdate({
+          set: {
+            score: incoming("score"),
+            totalPicks: incoming("totalPicks"),
+            correctPicks: incoming("correctPicks"),
+            partialPicks: incoming("partialPicks"),
+            perfectPicks: incoming("perfectPicks"),
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    await rerankScope(tx, scope, scopeId);
+  });
+}
+
+/** Recompute positions for a scope (score DESC, userId ASC), writing only rows whose rank moved. */
+async function rerankScope(conn: DbExecutor, scope: RankScope, scopeId: number) {
+  await conn.execute(sql`
+    UPDATE ${leaderboardRanks}
+    JOIN (
+      SELECT id AS rankedId, ROW_NUMBER() OVER (ORDER BY score DESC, userId ASC) AS newRank
+      FROM ${leaderboardRanks}
+      WHERE scope = ${scope} AND scopeId = ${scopeId}
+    ) AS ranked ON ${leaderboardRanks.id} = ranked.rankedId
+    SET ${leaderboardRanks.rank} = ranked.newRank
+    WHERE ${leaderboardRanks.rank} <> ranked.newRank
+  `);
+}
+
+/** Drop every scope of a kind except the given ids (e.g. events with no scored picks left). */
+export async function pruneRankScopes(scope: RankScope, keepScopeIds: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(leaderboardRanks).where(and(
+    eq(leaderboardRanks.scope, scope),
+    keepScopeIds.length > 0 ? notInArray(leaderboardRanks.scopeId, keepScopeIds) : undefined,
+  ));
+}
+
+export async function clearRankScope(scope: RankScope, scopeId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(leaderboardRanks).where(inRankScope(scope, scopeId));
+}
+
+/** When a scope's ranks last changed; null if the scope has never been built. */
+export async function getRankScopeUpdatedAt(scope: RankScope, scopeId: number): Promise<Date | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const [row] = await db
+    .select({ updatedAt: sql<string | null>`MAX(${leaderboardRanks.updatedAt})` })
+    .from(leaderboardRanks)
+    .where(inRankScope(scope, scopeId));
+  return row?.updatedAt ? new Date(row.updatedAt) : null;
+}
+
+export async function hasRankRows(scope: RankScope): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const rows = await db.select({ id: leaderboardRanks.id }).from(leaderboardRanks).where(eq(leaderboardRanks.scope, scope)).limit(1);
+  return rows.length > 0;
+}
+
+/** A page of a scope's ranks with the profile fields leaderboards display. */
+export async function getRankPage(scope: RankScope, scopeId: number, limit = 50, offset = 0) {
+  const db = await getDb();
+  if (!db) return { rows: [], total: 0, updatedAt: null };
+  const [rows, [totalRow], updatedAt] = await Promise.all([
+    db
+      .select({
+        rank: leaderboardRanks,
+        username: userProfiles.username,
+        displayName: userProfiles.displayName,
+        tier: userProfiles.tier,
+        credibilityScore: userProfiles.credibilityScore,
+      })
+      .from(leaderboardRanks)
+      .leftJoin(userProfiles, eq(leaderboardRanks.userId, userProfiles.userId))
+      .where(inRankScope(scope, scopeId))
+      .orderBy(asc(leaderboardRanks.rank))
+      .limit(limit)
+      .offset(offset),
+    db.select({ count: count() }).from(leaderboardRanks).where(inRankScope(scope, scopeId)),
+    getRankScopeUpdatedAt(scope, scopeId),
+  ]);
+  return { rows, total: totalRow?.count ?? 0, updatedAt };
+}
+
+// Rank sources — the live aggregates each scope is materialized from
+
+export async function getGlobalRankSources(userIds?: number[]) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({
+      userId: userProfiles.userId,
+      credibilityScore: userProfiles.credibilityScore,
+      recentCredibilityScore: userProfiles.recentCredibilityScore,
+      totalPicks: userProfiles.totalPicks,
+      correctPicks: userProfiles.correctPicks,
+    })
+    .from(userProfiles)
+    .where(userIds ? inArray(userProfiles.userId, userIds) : undefined);
+}
+
+/** Points and pick counts per user across an event's active, scored log entries. */
+export async function getEventRankSources(eventId: number, userIds?: number[]): Promise<RankSourceRow[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .select({
+      userId: credibilityLog.userId,
+      score: sql<number>`SUM(${credibilityLog.totalPoints})`,
+      totalPicks: sql<number>`COUNT(DISTINCT ${credibilityLog.predictionId})`,
+      correctPicks: sql<number>`SUM(CASE WHEN ${predictions.status} = 'correct' THEN 1 ELSE 0 END)`,
+      partialPicks: sql<number>`SUM(CASE WHEN ${predictions.status} = 'partial' THEN 1 ELSE 0 END)`,
+      perfectPicks: sql<number>`SUM(CASE WHEN ${predictions.winnerPoints} > 0 AND ${predictions.finishTypePoints} > 0 AND ${predictions.methodPoints} > 0 AND ${predictions.bonusPoints} > 0 THEN 1 ELSE 0 END)`,
+    })
+    .from(credibilityLog)
+    .innerJoin(fights, eq(credibilityLog.fightId, fights.id))
+    .innerJoin(predictions, eq(credibilityLog.predictionId, predictions.id))
+    .where(and(
+      eq(fights.eventId, eventId),
+      isNull(credibilityLog.reversedAt),
+      eq(credibilityLog.status, "scored"),
+      userIds ? inArray(credibilityLog.userId, userIds) : undefined,
+    ))
+    .groupBy(credibilityLog.userId);
+  return rows.map(toRankSource);
+}
+
+/** When a fight took place — its scheduled start, else its event's date. Seasons are windowed on this. */
+const fightDate = sql`COALESCE(${fights.scheduledStartTime}, ${events.eventDate})`;
+
+/** Points and pick counts per user for active scored log entries on fights inside a season window. */
+export async function getSeasonRankSources(season: Season, userIds?: number[]): Promise<RankSourceRow[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .select({
+      userId: credibilityLog.userId,
+      score: sql<number>`SUM(${credibilityLog.totalPoints})`,
+      totalPicks: sql<number>`COUNT(DISTINCT ${credibilityLog.predictionId})`,
+      correctPicks: sql<number>`SUM(CASE WHEN ${credibilityLog.winnerPoints} > 0 THEN 1 ELSE 0 END)`,
+    })
+    .from(credibilityLog)
+    .innerJoin(fights, eq(credibilityLog.fightId, fights.id))
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(and(
+      between(fightDate, season.startsAt, season.endsAt),
+      isNull(credibilityLog.reversedAt),
+      eq(credibilityLog.status, "scored"),
+      userIds ? inArray(credibilityLog.userId, userIds) : undefined,
+    ))
+    .groupBy(credibilityLog.userId);
+  return rows.map(toRankSource);
+}
+
+// SUM() comes back from mysql2 as a string
+function toRankSource(row: {
+  userId: number;
+  score: unknown;
+  totalPicks: unknown;
+  correctPicks: unknown;
+  partialPicks?: unknown;
+  perfectPicks?: unknown;
+}): RankSourceRow {
+  return {
+    userId: row.userId,
+    score: Number(row.score ?? 0),
+    totalPicks: Number(row.totalPicks ?? 0),
+    correctPicks: Number(row.correctPicks ?? 0),
+    partialPicks: Number(row.partialPicks ?? 0),
+    perfectPicks: Number(row.perfectPicks ?? 0),
+  };
+}
+
+/** Events with at least one active, scored log entry. */
+export async function getScoredEventIds(): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .selectDistinct({ eventId: fights.eventId })
+    .from(credibilityLog)
+    .innerJoin(fights, eq(credibilityLog.fightId, fights.id))
+    .where(and(isNull(credibilityLog.reversedAt), eq(credibilityLog.status, "scored")));
+  return rows.map((r) => r.eventId);
+}
+
+/** Open seasons whose window holds the fight's date. */
+export async function getOpenSeasonsForFight(fightId: number): Promise<Season[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .select({ season: seasons })
+    .from(fights)
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .innerJoin(seasons, between(fightDate, seasons.startsAt, seasons.endsAt))
+    .where(and(eq(fights.id, fightId), isNull(seasons.finalizedAt)));
+  return rows.map((r) => r.season);
+}
+
+// ─── Events ───────────────────────────────────────────────────────────────────
+
+export async function getUpcomingEvents(): Promise<Event[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(events).where(eq(events.status, "upcoming")).orderBy(events.eventDate);
+}
+
+export async function getAllEvents(): Promise<Event[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(events).orderBy(events.eventDate);
+}
+
+export async function getEventById(id: number): Promise<Event | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const rows = await db.select().from(events).where(eq(events.id, id));
+  return rows[0] ?? null;
+}
+
+export async function upsertEvent(data: InsertEvent & { id?: number }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (data.id) {
+    const { id, ...rest } = data;
+    await db.update(events).set(rest).where(eq(events.id, id));
+    return id;
+  }
+  const result = await db.insert(events).values(data);
+  return result[0].insertId;
+}
+
+export async function updateEventStatus(eventId: number, status: Event["status"]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(events).set({ status }).where(eq(events.id, eventId));
+}
+
+/**
+ * Upcoming events whose card is due to start by `cutoff` — the event date has
+ * been reached or one of its fights is scheduled by then.
+ */
+export async function getEventsDueToStart(cutoff: Date): Promise<Event[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const fightDue = db
+    .select({ eventId: fights.eventId })
+    .from(fights)
+    .where(and(isNotNull(fights.scheduledStartTime), lte(fights.scheduledStartTime, cutoff)));
+  return db
+    .select()
+    .from(events)
+    .where(and(eq(events.status, "upcoming"), or(lte(events.eventDate, cutoff), inArray(events.id, fightDue))));
+}
+
+// ─── Fighters ─────────────────────────────────────────────────────────────────
+
+/** The form names are stored and looked up in fighter_aliases. */
+export function normalizeFighterName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export async function getFighterById(id: number, conn?: DbExecutor): Promise<Fighter | null> {
+  const db = conn ?? (await getDb());
+  if (!db) return null;
+  const rows = await db.select().from(fighters).where(eq(fighters.id, id));
+  return rows[0] ?? null;
+}
+
+export async function getFightersByIds(ids: number[], conn?: DbExecutor): Promise<Fighter[]> {
+  const db = conn ?? (await getDb());
+  if (!db || ids.length === 0) return [];
+  return db.select().from(fighters).where(inArray(fighters.id, ids));
+}
+
+/** The fighter known by this name or one of its aliases. */
+export async function findFighterByName(name: string, conn?: DbExecutor): Promise<Fighter | null> {
+  const db = conn ?? (await getDb());
+  if (!db) return null;
+  const rows = await db
+    .select({ fighter: fighters })
+    .from(fighterAliases)
+    .innerJoin(fighters, eq(fighterAliases.fighterId, fighters.id))
+    .where(eq(fighterAliases.alias, normalizeFighterName(name)))
+    .limit(1);
+  return rows[0]?.fighter ?? null;
+}
+
+export async function getFighterAliases(fighterId: number, conn?: DbExecutor): Promise<string[]> {
+  const db = conn ?? (await getDb());
+  if (!db) return [];
+  const rows = await db.select({ alias: fighterAliases.alias }).from(fighterAliases).where(eq(fighterAliases.fighterId, fighterId));
+  return rows.map((r) => r.alias);
+}
+
+/** Record more spellings for a fighter; names already taken (by anyone) are skipped. */
+export async function addFighterAliases(fighterId: number, names: string[], conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  const aliases = [...new Set(names.map(normalizeFighterName).filter(Boolean))];
+  if (aliases.length === 0) return;
+  await db.insert(fighterAliases).ignore().values(aliases.map((alias) => ({ fighterId, alias })));
+}
+
+/** The id of the fighter known by this name, creating the fighter on first sight. */
+export async function getOrCreateFighterId(name: string, conn?: DbExecutor): Promise<number> {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  const existing = await findFighterByName(name, db);
+  if (existing) return existing.id;
+
+  const result = await db.insert(fighters).values({ name: name.trim() });
+  const fighterId = result[0].insertId;
+  await addFighterAliases(fighterId, [name], db);
+  // A concurrent insert may have claimed the alias first — use whichever fighter owns it
+  const owner = await findFighterByName(name, db);
+  if (owner && owner.id !== fighterId) {
+    await db.delete(fighters).where(eq(fighters.id, fighterId));
+    return owner.id;
+  }
+  return fighterId;
+}
+
+export async function updateFighter(id: number, data: Partial<Pick<Fighter, "name" | "ufcSlug" | "espnAthleteId">>, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.update(fighters).set(data).where(eq(fighters.id, id));
+}
+
+// ─── Fighter Profile Sync ─────────────────────────────────────────────────────
+
+/** Synced profile fields, as stored on fighters and copied onto upcoming fights. */
+export interface FighterProfileFields {
+  imageUrl: string | null;
+  nickname: string | null;
+  nationality: string | null;
+  record: string | null;
+  ranking: string | null;
+  recentResults: string | null; // JSON
+}
+
+/** Fighters on upcoming fights that start by `until`. */
+export async function getUpcomingCardFighterIds(until: Date): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .select({ fighter1Id: fights.fighter1Id, fighter2Id: fights.fighter2Id })
+    .from(fights)
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(and(
+      eq(fights.status, "upcoming"),
+      lte(sql`COALESCE(${fights.scheduledStartTime}, ${events.eventDate})`, until),
+    ));
+  return [...new Set(rows.flatMap((r) => [r.fighter1Id, r.fighter2Id]).filter((id): id is number => id != null))];
+}
+
+/**
+ * Fighters whose profile should be fetched now, never-tried first then oldest:
+ * failed attempts once `retryBefore` has passed, fighters in `cardFighterIds`
+ * once older than `cardStaleBefore`, everyone else once older than `staleBefore`.
+ */
+export async function getFightersDueForProfileSync(opts: {
+  staleBefore: Date;
+  cardStaleBefore: Date;
+  retryBefore: Date;
+  cardFighterIds: number[];
+  limit: number;
+}): Promise<Fighter[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const conditions: SQL[] = [
+    isNull(fighters.profileAttemptedAt),
+    and(eq(fighters.profileStatus, "failed"), lt(fighters.profileAttemptedAt, opts.retryBefore))!,
+    lt(fighters.profileAttemptedAt, opts.staleBefore),
+  ];
+  if (opts.cardFighterIds.length > 0) {
+    conditions.push(and(inArray(fighters.id, opts.cardFighterIds), lt(fighters.profileAttemptedAt, opts.cardStaleBefore))!);
+  }
+  return db
+    .select()
+    .from(fighters)
+    .where(or(...conditions))
+    .orderBy(sql`${fighters.profileAttemptedAt} IS NOT NULL`, asc(fighters.profileAttemptedAt))
+    .limit(opts.limit);
+}
+
+/** Store a sync outcome: the profile when found, or not_found when UFC has no such athlete. */
+export async function recordFighterProfile(id: number, profile: FighterProfileFields | null, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  const now = new Date();
+  await db
+    .update(fighters)
+    .set(profile
+      ? { ...profile, profileStatus: "synced", profileSyncedAt: now, profileAttemptedAt: now, profileFailures: 0, profileError: null }
+      : { profileStatus: "not_found", profileAttemptedAt: now, profileFailures: 0, profileError: null })
+    .where(eq(fighters.id, id));
+}
+
+export async function recordFighterProfileFailure(id: number, error: string, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db
+    .update(fighters)
+    .set({
+      profileStatus: "failed",
+      profileAttemptedAt: new Date(),
+      profileFailures: sql`${fighters.profileFailures} + 1`,
+      profileError: error.slice(0, 1000),
+    })
+    .where(eq(fighters.id, id));
+}
+
+/**
+ * Copy a synced profile onto the fighter's upcoming fights. Completed fights
+ * keep the record and ranking the fighter had at the time; fields the sync
+ * could not find keep whatever was entered by hand.
+ */
+export async function applyFighterProfileToFights(fighterId: number, profile: FighterProfileFields, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  const defined = <T extends Record<string, unknown>>(values: T) =>
+    Object.fromEntries(Object.entries(values).filter(([, v]) => v != null)) as Partial<T>;
+
+  const side1 = defined({
+    fighter1ImageUrl: profile.imageUrl,
+    fighter1Nickname: profile.nickname,
+    fighter1Nationality: profile.nationality,
+    fighter1Record: profile.record,
+    fighter1Ranking: profile.ranking,
+    fighter1RecentResults: profile.recentResults,
+  });
+  const side2 = defined({
+    fighter2ImageUrl: profile.imageUrl,
+    fighter2Nickname: profile.nickname,
+    fighter2Nationality: profile.nationality,
+    fighter2Record: profile.record,
+    fighter2Ranking: profile.ranking,
+    fighter2RecentResults: profile.recentResults,
+  });
+  if (Object.keys(side1).length === 0) return;
+  await db.update(fights).set(side1).where(and(eq(fights.fighter1Id, fighterId), eq(fights.status, "upcoming")));
+  await db.update(fights).set(side2).where(and(eq(fights.fighter2Id, fighterId), eq(fights.status, "upcoming")));
+}
+
+/** Fighters whose last sync did not produce a profile, most recent attempt first. */
+export async function getFighterProfileIssues(status?: "not_found" | "failed", limit = 100) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({
+      id: fighters.id,
+      name: fighters.name,
+      ufcSlug: fighters.ufcSlug,
+      profileStatus: fighters.profileStatus,
+      profileAttemptedAt: fighters.profileAttemptedAt,
+      profileSyncedAt: fighters.profileSyncedAt,
+      profileFailures: fighters.profileFailures,
+      profileError: fighters.profileError,
+    })
+    .from(fighters)
+    .where(status ? eq(fighters.profileStatus, status) : inArray(fighters.profileStatus, ["not_found", "failed"]))
+    .orderBy(desc(fighters.profileAttemptedAt))
+    .limit(limit);
+}
+
+// ─── Fighter Pages ────────────────────────────────────────────────────────────
+
+/** Fighters with a name or alias containing the query, canonical name order. */
+export async function searchFighters(query: string, limit = 20): Promise<Fighter[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const escaped = normalizeFighterName(query).replace(/[\\%_]/g, (c) => `\\${c}`);
+  const rows = await db
+    .selectDistinct({ fighter: fighters })
+    .from(fighterAliases)
+    .innerJoin(fighters, eq(fighterAliases.fighterId, fighters.id))
+    .where(like(fighterAliases.alias, `%${escaped}%`))
+    .orderBy(fighters.name)
+    .limit(limit);
+  return rows.map((r) => r.fighter);
+}
+
+/** Every fight the fighter is on, with its event, most recent first. */
+export async function getFighterFights(fighterId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ fight: fights, event: events })
+    .from(fights)
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(or(eq(fights.fighter1Id, fighterId), eq(fights.fighter2Id, fighterId)))
+    .orderBy(desc(events.eventDate), desc(fights.id));
+}
+
+/** Per fight: how many non-void picks it drew and how many of them backed this fighter. */
+export async function getFighterPickSplits(fighterId: number, fightIds: number[]) {
+  const db = await getDb();
+  if (!db || fightIds.length === 0) return [];
+  const rows = await db
+    .select({
+      fightId: predictions.fightId,
+      picks: sql<number>`COUNT(*)`,
+      picksFor: sql<number>`SUM(CASE WHEN ${predictions.pickedWinnerId} = ${fighterId} THEN 1 ELSE 0 END)`,
+    })
+    .from(predictions)
+    .where(and(inArray(predictions.fightId, fightIds), ne(predictions.status, "void")))
+    .groupBy(predictions.fightId);
+  return rows.map((r) => ({ fightId: r.fightId, picks: Number(r.picks ?? 0), picksFor: Number(r.picksFor ?? 0) }));
+}
+
+/** Resolved picks backing this fighter, summed over every user's fighter stats. */
+export async function getFighterBackingTotals(fighterId: number) {
+  const db = await getDb();
+  if (!db) return { backers: 0, totalPicks: 0, correctPicks: 0 };
+  const [row] = await db
+    .select({
+      backers: sql<number>`COUNT(DISTINCT ${userFighterStats.userId})`,
+      totalPicks: sql<number>`COALESCE(SUM(${userFighterStats.totalPicks}), 0)`,
+      correctPicks: sql<number>`COALESCE(SUM(${userFighterStats.correctPicks}), 0)`,
+    })
+    .from(userFighterStats)
+    .where(and(eq(userFighterStats.fighterId, fighterId), gt(userFighterStats.totalPicks, 0)));
+  return {
+    backers: Number(row?.backers ?? 0),
+    totalPicks: Number(row?.totalPicks ?? 0),
+    correctPicks: Number(row?.correctPicks ?? 0),
+  };
+}
+
+// ─── Fights ───────────────────────────────────────────────────────────────────
+
+export async function getFightsByEvent(eventId: number): Promise<Fight[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(fights).where(eq(fights.eventId, eventId));
+}
+
+export async function getFightById(id: number, conn?: DbExecutor): Promise<Fight | null> {
+  const db = conn ?? (await getDb());
+  if (!db) return null;
+  const rows = await db.select().from(fights).where(eq(fights.id, id));
+  return rows[0] ?? null;
+}
+
+export async function createFight(data: InsertFight): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(fights).values({
+    ...data,
+    fighter1Id: data.fighter1Id ?? (await getOrCreateFighterId(data.fighter1Name, db)),
+    fighter2Id: data.fighter2Id ?? (await getOrCreateFighterId(data.fighter2Name, db)),
+  });
+  return result[0].insertId;
+}
+
+/** Upcoming fights whose start — scheduledStartTime, else the event date — falls by `cutoff`. */
+export async function getFightsDueForLock(cutoff: Date): Promise<Fight[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .select({ fight: fights })
+    .from(fights)
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(and(
+      eq(fights.status, "upcoming"),
+      lte(sql`COALESCE(${fights.scheduledStartTime}, ${events.eventDate})`, cutoff),
+    ));
+  return rows.map((r) => r.fight);
+}
+
+/** The odds a fight has when predictions close become its closing line (kept if already set). */
+function closingLineSet() {
+  return {
+    closingOdds1: sql`COALESCE(${fights.closingOdds1}, ${fights.odds1})`,
+    closingOdds2: sql`COALESCE(${fights.closingOdds2}, ${fights.odds2})`,
+    closingOddsAt: sql`COALESCE(${fights.closingOddsAt}, ${fights.oddsUpdatedAt})`,
+  };
+}
+
+/** Close picks on a fight (keeping the first lock time) and move it to "live" if it has not started. */
+export async function lockFight(fightId: number, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db
+    .update(fights)
+    .set({ lockedAt: sql`COALESCE(${fights.lockedAt}, NOW())`, status: "live", ...closingLineSet() })
+    .where(and(eq(fights.id, fightId), eq(fights.status, "upcoming")));
+  await lockPredictionsForFight(fightId, db);
+}
+
+/** Close picks on every upcoming fight of an event without changing fight status. */
+export async function lockEventFights(eventId: number, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db
+    .update(fights)
+    .set({ lockedAt: new Date(), ...closingLineSet() })
+    .where(and(eq(fights.eventId, eventId), eq(fights.status, "upcoming"), isNull(fights.lockedAt)));
+  await db
+    .update(predictions)
+    .set({ isLocked: true })
+    .where(and(
+      eq(predictions.isLocked, false),
+      inArray(predictions.fightId, db.select({ id: fights.id }).from(fights).where(eq(fights.eventId, eventId))),
+    ));
+}
+
+/**
+ * What the result poller needs to pick its cadence: live fights and events,
+ * and the earliest start among upcoming fights. Anything that started before
+ * `since` is ignored so stale, never-resolved fights cannot pin it to fast.
+ */
+export async function getPollingState(since: Date) {
+  const db = await getDb();
+  if (!db) return { liveFights: 0, liveEvents: [] as string[], nextStart: null };
+  const startsAt = sql`COALESCE(${fights.scheduledStartTime}, ${events.eventDate})`;
+
+  const [[live], [next], liveEvents] = await Promise.all([
+    db
+      .select({ count: count() })
+      .from(fights)
+      .innerJoin(events, eq(fights.eventId, events.id))
+      .where(and(eq(fights.status, "live"), gte(startsAt, since))),
+    db
+      .select({ nextStart: sql<string | null>`MIN(${startsAt})` })
+      .from(fights)
+      .innerJoin(events, eq(fights.eventId, events.id))
+      .where(and(eq(fights.status, "upcoming"), gte(startsAt, since))),
+    db
+      .select({ name: events.name })
+      .from(events)
+      .where(and(eq(events.status, "live"), gte(events.eventDate, since))),
+  ]);
+
+  return {
+    liveFights: live?.count ?? 0,
+    liveEvents: liveEvents.map((e) => e.name),
+    nextStart: next?.nextStart ? new Date(next.nextStart) : null,
+  };
+}
+
+export async function updateFightStatus(fightId: number, status: Fight["status"], conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.update(fights).set({ status }).where(eq(fights.id, fightId));
+}
+
+/** Upcoming fights still open for picks that start by `until`, with their events (for the odds sync). */
+export async function getFightsForOddsSync(until: Date) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ fight: fights, event: events })
+    .from(fights)
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(and(
+      eq(fights.status, "upcoming"),
+      isNull(fights.lockedAt),
+      lte(sql`COALESCE(${fights.scheduledStartTime}, ${events.eventDate})`, until),
+    ))
+    .orderBy(asc(events.eventDate), asc(fights.id));
+}
+
+/** Set a fight's current odds; the first odds a fight gets are also its opening line. */
+export async function updateFightOdds(fightId: number, odds1: number, odds2: number, oddsApiEventId?: string, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  const now = new Date();
+  await db.update(fights).set({
+    odds1,
+    odds2,
+    oddsUpdatedAt: now,
+    openingOdds1: sql`COALESCE(${fights.openingOdds1}, ${odds1})`,
+    openingOdds2: sql`COALESCE(${fights.openingOdds2}, ${odds2})`,
+    openingOddsAt: sql`COALESCE(${fights.openingOddsAt}, ${now})`,
+    ...(oddsApiEventId ? { oddsApiEventId } : {}),
+  }).where(eq(fights.id, fightId));
+}
+
+/** Pin (or with null, unpin) the Odds API event a fight's odds are taken from. */
+export async function setFightOddsApiEventId(fightId: number, oddsApiEventId: string | null, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.update(fights).set({ oddsApiEventId }).where(eq(fights.id, fightId));
+}
+
+/** How a fight ended beyond the winner and method bucket; omitted fields are left unchanged. */
+export interface FightResultDetails {
+  /** Canonical id of the winner; null for draws, no contests and fights without fighter ids. */
+  winnerId?: number | null;
+  round?: number;
+  fightTime?: string;
+  methodDetail?: string;
+  decisionType?: DecisionType;
+  referee?: string;
+}
+
+export async function resolveFight(
+  fightId: number,
+  winner: string,
+  finishType: "finish" | "decision",
+  method: "tko_ko" | "submission" | "decision" | "draw" | "nc",
+  details: FightResultDetails = {},
+  conn?: DbExecutor,
+) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  const { winnerId, round, fightTime, methodDetail, decisionType, referee } = details;
+  await db
+    .update(fights)
+    .set({ winner, winnerId, finishType, method, round, fightTime, methodDetail, decisionType, referee, status: "completed" })
+    .where(eq(fights.id, fightId));
+}
+
+// ─── Odds History ─────────────────────────────────────────────────────────────
+
+export async function insertOddsSnapshots(rows: InsertOddsSnapshot[], conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  if (rows.length === 0) return;
+  await db.insert(oddsSnapshots).values(rows);
+}
+
+/** A fight's snapshots, oldest first — one bookmaker's (e.g. "consensus"), or all of them. */
+export async function getOddsSnapshots(fightId: number, bookmaker?: string): Promise<OddsSnapshot[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select()
+    .from(oddsSnapshots)
+    .where(and(eq(oddsSnapshots.fightId, fightId), bookmaker ? eq(oddsSnapshots.bookmaker, bookmaker) : undefined))
+    .orderBy(asc(oddsSnapshots.capturedAt), asc(oddsSnapshots.id));
+}
+
+export async function getLatestOddsSnapshot(fightId: number, bookmaker: string): Promise<OddsSnapshot | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const rows = await db
+    .select()
+    .from(oddsSnapshots)
+    .where(and(eq(oddsSnapshots.fightId, fightId), eq(oddsSnapshots.bookmaker, bookmaker)))
+    .orderBy(desc(oddsSnapshots.capturedAt), desc(oddsSnapshots.id))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/** A fight's predictions with the snapshot each one's odds were taken from, if any. */
+export async function getPredictionsWithOddsSnapshots(fightId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ prediction: predictions, snapshot: oddsSnapshots })
+    .from(predictions)
+    .leftJoin(oddsSnapshots, eq(predictions.oddsSnapshotId, oddsSnapshots.id))
+    .where(eq(predictions.fightId, fightId))
+    .orderBy(asc(predictions.id));
+}
+
+// ─── Predictions ──────────────────────────────────────────────────────────────
+
+export async function getUserPredictions(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ prediction: predictions, fight: fights, event: events })
+    .from(predictions)
+    .innerJoin(fights, eq(predictions.fightId, fights.id))
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(eq(predictions.userId, userId))
+    .orderBy(desc(events.eventDate));
+}
+
+export async function getPredictionByUserAndFight(userId: number, fightId: number): Promise<Prediction | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const rows = await db.select().from(predictions).where(and(eq(predictions.userId, userId), eq(predictions.fightId, fightId)));
+  return rows[0] ?? null;
+}
+
+export async function upsertPrediction(userId: number, fightId: number, data: Omit<InsertPrediction, "userId" | "fightId">): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const existing = await getPredictionByUserAndFight(userId, fightId);
+  if (existing) {
+    if (existing.isLocked) throw new Error("Prediction is locked — fight has started");
+    await db.update(predictions).set({ ...data, updatedAt: new Date() }).where(eq(predictions.id, existing.id));
+    return existing.id;
+  }
+  const result = await db.insert(predictions).values({ userId, fightId, ...data });
+  return result[0].insertId;
+}
+
+export async function lockPredictionsForFight(fightId: number, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.update(predictions).set({ isLocked: true }).where(eq(predictions.fightId, fightId));
+}
+
+export async function getPredictionsForFight(fightId: number, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) return [];
+  return db.select().from(predictions).where(eq(predictions.fightId, fightId));
+}
+
+export async function updatePredictionScore(
+  predictionId: number,
+  data: Pick<InsertPrediction, "status" | "winnerPoints" | "finishTypePoints" | "methodPoints" | "bonusPoints" | "totalPoints" | "closingLineValue">,
+  conn?: DbExecutor,
+) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.update(predictions).set(data).where(eq(predictions.id, predictionId));
+}
+
+// ─── Credibility Scoring ──────────────────────────────────────────────────────
+
+export async function insertCredibilityLog(data: {
+  userId: number; fightId: number; predictionId: number;
+  winnerPoints: number; finishTypePoints: number; methodPoints: number;
+  bonusPoints: number; totalPoints: number; breakdown: string;
+  status?: "scored" | "void"; ruleVersion?: number;
+}, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.insert(credibilityLog).values(data);
+}
+
+export async function getActiveCredibilityLogForFight(fightId: number, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) return [];
+  return db.select().from(credibilityLog).where(and(eq(credibilityLog.fightId, fightId), isNull(credibilityLog.reversedAt)));
+}
+
+export async function reverseCredibilityLogForFight(fightId: number, correctionId: number, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.update(credibilityLog)
+    .set({ reversedAt: new Date(), correctionId })
+    .where(and(eq(credibilityLog.fightId, fightId), isNull(credibilityLog.reversedAt)));
+}
+
+export async function getCredibilityLog(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(credibilityLog).where(eq(credibilityLog.userId, userId)).orderBy(desc(credibilityLog.createdAt));
+}
+
+// ─── Normalized 0-100 Credibility Score Recalculation ────────────────────────
+
+/**
+ * All resolved predictions for a user in the shape calcNormalizedCredScore expects.
+ */
+export async function getNormalizedPickData(userId: number, conn?: DbExecutor) {
+  const dbConn = conn ?? (await getDb());
+  if (!dbConn) return [];
+
+  // Fetch all resolved predictions for this user, joined with fight data
+  const rows = await dbConn
+    .select({
+      predStatus: predictions.status,
+      pickedFinishType: predictions.pickedFinishType,
+      pickedMethod: predictions.pickedMethod,
+      oddsAtPrediction: predictions.oddsAtPrediction,
+      opponentOddsAtPrediction: predictions.opponentOddsAtPrediction,
+      fightFinishType: fights.finishType,
+      fightMethod: fights.method,
+      fightWinner: fights.winner,
+      fightWinnerId: fights.winnerId,
+      pickedWinner: predictions.pickedWinner,
+      pickedWinnerId: predictions.pickedWinnerId,
+      fightStartTime: fights.scheduledStartTime,
+      eventDate: events.eventDate,
+    })
+    .from(predictions)
+    .innerJoin(fights, eq(predictions.fightId, fights.id))
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(and(eq(predictions.userId, userId), sql`${predictions.status} != 'pending'`));
+
+  return rows.map(toNormalizedPick);
+}
+
+function toNormalizedPick(row: {
+  predStatus: Prediction["status"];
+  pickedFinishType: Prediction["pickedFinishType"];
+  pickedMethod: Prediction["pickedMethod"];
+  oddsAtPrediction: number | null;
+  opponentOddsAtPrediction: number | null;
+  fightFinishType: Fight["finishType"];
+  fightMethod: Fight["method"];
+  fightWinner: string | null;
+  fightWinnerId: number | null;
+  pickedWinner: string;
+  pickedWinnerId: number | null;
+  fightStartTime: Date | null;
+  eventDate: Date;
+}) {
+  return {
+    voided: row.predStatus === "void",
+    correct: isPickedWinner(row, { winner: row.fightWinner, winnerId: row.fightWinnerId }),
+    pickedFinishType: row.pickedFinishType ?? null,
+    pickedMethod: row.pickedMethod ?? null,
+    resultFinishType: row.fightFinishType ?? null,
+    resultMethod: row.fightMethod ?? null,
+    pickedFighterOdds: row.oddsAtPrediction ?? null,
+    opponentOdds: row.opponentOddsAtPrediction ?? null,
+    foughtAt: row.fightStartTime ?? row.eventDate,
+  };
+}
+
+/**
+ * Recalculate the normalized 0-100 credibility score for a single user
+ * from all their resolved predictions, along with the recency-weighted score.
+ * Stores both back to userProfiles and returns the all-time score.
+ */
+export async function recalcNormalizedScoreForUser(
+  userId: number,
+  conn?: DbExecutor,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): Promise<number> {
+  const dbConn = conn ?? (await getDb());
+  if (!dbConn) return 0;
+
+  const pickData = await getNormalizedPickData(userId, dbConn);
+  const normalizedScore = calcNormalizedCredScore(pickData, rules);
+  const now = new Date();
+  const recentScore = calcNormalizedCredScore(
+    pickData.map((pick) => ({ ...pick, weight: getRecencyWeight(pick.foughtAt, rules.decayHalfLifeDays, now) })),
+    rules,
+  );
+
+  // Store normalized scores back to userProfiles
+  await dbConn.update(userProfiles)
+    .set({ credibilityScore: normalizedScore, recentCredibilityScore: recentScore })
+    .where(eq(userProfiles.userId, userId));
+
+  return normalizedScore;
+}
+
+/**
+ * Resolved, non-voided predictions for a user in the order the fights happened,
+ * with the fight's recorded winner. Used to rebuild streaks.
+ */
+export async function getResolvedPickHistory(userId: number, conn?: DbExecutor) {
+  const dbConn = conn ?? (await getDb());
+  if (!dbConn) return [];
+  return dbConn
+    .select({
+      predictionId: predictions.id,
+      pickedWinner: predictions.pickedWinner,
+      pickedWinnerId: predictions.pickedWinnerId,
+      fightWinner: fights.winner,
+      fightWinnerId: fights.winnerId,
+    })
+    .from(predictions)
+    .innerJoin(fights, eq(predictions.fightId, fights.id))
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(and(eq(predictions.userId, userId), notInArray(predictions.status, ["pending", "void"])))
+    .orderBy(asc(events.eventDate), asc(fights.scheduledStartTime), asc(fights.id));
+}
+
+/**
+ * Every scored (non-pending, non-voided) prediction for a user with its fight
+ * and the rule version of its active log entry, in the order the fights
+ * happened. Source of truth for profile rebuilds.
+ */
+export async function getScoredPredictionsWithFights(userId: number, conn?: DbExecutor) {
+  const dbConn = conn ?? (await getDb());
+  if (!dbConn) return [];
+  return dbConn
+    .select({ prediction: predictions, fight: fights, log: { id: credibilityLog.id, ruleVersion: credibilityLog.ruleVersion } })
+    .from(predictions)
+    .innerJoin(fights, eq(predictions.fightId, fights.id))
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .leftJoin(credibilityLog, and(eq(credibilityLog.predictionId, predictions.id), isNull(credibilityLog.reversedAt)))
+    .where(and(eq(predictions.userId, userId), notInArray(predictions.status, ["pending", "void"])))
+    .orderBy(asc(events.eventDate), asc(fights.scheduledStartTime), asc(fights.id));
+}
+
+/**
+ * Recalculate normalized 0-100 scores for ALL users with profiles.
+ * Used by the admin recalcAllScores endpoint.
+ */
+export async function recalcAllNormalizedScores(
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): Promise<{ userId: number; score: number }[]> {
+  const dbConn = await getDb();
+  if (!dbConn) return [];
+
+  const allProfiles = await dbConn.select({ userId: userProfiles.userId }).from(userProfiles);
+  const results: { userId: number; score: number }[] = [];
+
+  for (const profile of allProfiles) {
+    const score = await recalcNormalizedScoreForUser(profile.userId, dbConn, rules);
+    results.push({ userId: profile.userId, score });
+  }
+
+  return results;
+}
+
+// ─── Seasons ──────────────────────────────────────────────────────────────────
+
+export async function createSeason(data: { name: string; startsAt: Date; endsAt: Date }): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(seasons).values(data);
+  return result[0].insertId;
+}
+
+export async function getSeasons(): Promise<Season[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(seasons).orderBy(desc(seasons.startsAt));
+}
+
+export async function getSeasonById(id: number): Promise<Season | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const rows = await db.select().from(seasons).where(eq(seasons.id, id));
+  return rows[0] ?? null;
+}
+
+/** The season whose window contains `at` (latest-starting if windows overlap). */
+export async function getSeasonAt(at: Date): Promise<Season | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const rows = await db
+    .select()
+    .from(seasons)
+    .where(and(lte(seasons.startsAt, at), gte(seasons.endsAt, at)))
+    .orderBy(desc(seasons.startsAt))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * Season standings aggregated straight from active, scored credibility_log
+ * entries on fights inside the season window, ranked by points earned. Used to
+ * finalize a season; live leaderboards read the materialized "season" ranks.
+ */
+export async function getSeasonStandingsLive(season: Season) {
+  const db = await getDb();
+  if (!db) return { rows: [] };
+
+  const pointsSum = sql<number>`SUM(${credibilityLog.totalPoints})`;
+  const rows = await db
+    .select({
+      userId: credibilityLog.userId,
+      points: pointsSum,
+      totalPicks: sql<number>`COUNT(DISTINCT ${credibilityLog.predictionId})`,
+      correctPicks: sql<number>`SUM(CASE WHEN ${credibilityLog.winnerPoints} > 0 THEN 1 ELSE 0 END)`,
+    })
+    .from(credibilityLog)
+    .innerJoin(fights, eq(credibilityLog.fightId, fights.id))
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(and(
+      between(fightDate, season.startsAt, season.endsAt),
+      isNull(credibilityLog.reversedAt),
+      eq(credibilityLog.status, "scored"),
+    ))
+    .groupBy(credibilityLog.userId)
+    .orderBy(desc(pointsSum), asc(credibilityLog.userId));
+
+  return { rows };
+}
+
+/** Normalized-score pick data for several users, limited to picks on fights inside a season window. */
+export async function getSeasonPickData(userIds: number[], season: Season) {
+  const db = await getDb();
+  if (!db || userIds.length === 0) return new Map<number, ReturnType<typeof toNormalizedPick>[]>();
+
+  const rows = await db
+    .select({
+      userId: credibilityLog.userId,
+      predStatus: predictions.status,
+      pickedFinishType: predictions.pickedFinishType,
+      pickedMethod: predictions.pickedMethod,
+      oddsAtPrediction: predictions.oddsAtPrediction,
+      opponentOddsAtPrediction: predictions.opponentOddsAtPrediction,
+      fightFinishType: fights.finishType,
+      fightMethod: fights.method,
+      fightWinner: fights.winner,
+      fightWinnerId: fights.winnerId,
+      pickedWinner: predictions.pickedWinner,
+      pickedWinnerId: predictions.pickedWinnerId,
+      fightStartTime: fights.scheduledStartTime,
+      eventDate: events.eventDate,
+    })
+    .from(credibilityLog)
+    .innerJoin(predictions, eq(credibilityLog.predictionId, predictions.id))
+    .innerJoin(fights, eq(credibilityLog.fightId, fights.id))
+    .innerJoin(events, eq(fights.eventId, events.id))
+    .where(and(
+      inArray(credibilityLog.userId, userIds),
+      between(fightDate, season.startsAt, season.endsAt),
+      isNull(credibilityLog.reversedAt),
+      eq(credibilityLog.status, "scored"),
+    ));
+
+  const byUser = new Map<number, ReturnType<typeof toNormalizedPick>[]>();
+  for (const row of rows) {
+    const picks = byUser.get(row.userId) ?? [];
+    picks.push(toNormalizedPick(row));
+    byUser.set(row.userId, picks);
+  }
+  return byUser;
+}
+
+export async function getProfileSummaries(userIds: number[]) {
+  const db = await getDb();
+  if (!db || userIds.length === 0) return [];
+  return db
+    .select({
+      userId: userProfiles.userId,
+      username: userProfiles.username,
+      displayName: userProfiles.displayName,
+      tier: userProfiles.tier,
+      credibilityScore: userProfiles.credibilityScore,
+    })
+    .from(userProfiles)
+    .where(inArray(userProfiles.userId, userIds));
+}
+
+/** Replace a season's snapshot with final standings and mark it finalized. */
+export async function saveSeasonStandings(seasonId: number, standings: InsertSeasonStanding[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.transaction(async (tx) => {
+    await tx.delete(seasonStandings).where(eq(seasonStandings.seasonId, seasonId));
+    // Insert in chunks to keep statements a reasonable size on large seasons
+    for (let i = 0; i < standings.length; i += 500) {
+      await tx.insert(seasonStandings).values(standings.slice(i, i + 500));
+    }
+    await tx.update(seasons).set({ finalizedAt: new Date() }).where(eq(seasons.id, seasonId));
+  });
+}
+
+export async function getSeasonSnapshot(seasonId: number, limit = 50, offset = 0) {
+  const db = await getDb();
+  if (!db) return { rows: [], total: 0 };
+  const rows = await db
+    .select({ standing: seasonStandings, username: userProfiles.username, displayName: userProfiles.displayName })
+    .from(seasonStandings)
+    .leftJoin(userProfiles, eq(seasonStandings.userId, userProfiles.userId))
+    .where(eq(seasonStandings.seasonId, seasonId))
+    .orderBy(asc(seasonStandings.rank))
+    .limit(limit)
+    .offset(offset);
+  const [totalRow] = await db.select({ count: count() }).from(seasonStandings).where(eq(seasonStandings.seasonId, seasonId));
+  return { rows, total: totalRow?.count ?? 0 };
+}
+
+export async function getUserSeasonHistory(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ season: seasons, standing: seasonStandings })
+    .from(seasonStandings)
+    .innerJoin(seasons, eq(seasonStandings.seasonId, seasons.id))
+    .where(eq(seasonStandings.userId, userId))
+    .orderBy(desc(seasons.startsAt));
+}
+
+// ─── Scoring Rule Versions ────────────────────────────────────────────────────
+
+export async function getScoringRuleVersions(): Promise<ScoringRuleVersion[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(scoringRuleVersions).orderBy(desc(scoringRuleVersions.version));
+}
+
+export async function getScoringRuleVersion(version: number): Promise<ScoringRuleVersion | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const rows = await db.select().from(scoringRuleVersions).where(eq(scoringRuleVersions.version, version));
+  return rows[0] ?? null;
+}
+
+export async function getActiveScoringRuleVersion(conn?: DbExecutor): Promise<ScoringRuleVersion | null> {
+  const db = conn ?? (await getDb());
+  if (!db) return null;
+  const rows = await db.select().from(scoringRuleVersions).where(eq(scoringRuleVersions.status, "active")).limit(1);
+  return rows[0] ?? null;
+}
+
+export async function createScoringRuleVersion(rules: string, notes: string | null): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db.transaction(async (tx) => {
+    const [latest] = await tx.select({ max: sql<number>`MAX(${scoringRuleVersions.version})` }).from(scoringRuleVersions);
+    // Version 1 is the built-in default rule set, so stored versions start at 2
+    const version = Math.max(latest?.max ?? 0, 1) + 1;
+    await tx.insert(scoringRuleVersions).values({ version, rules, notes });
+    return version;
+  });
+}
+
+export async function activateScoringRuleVersion(version: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.transaction(async (tx) => {
+    await tx.update(scoringRuleVersions).set({ status: "retired" }).where(eq(scoringRuleVersions.status, "active"));
+    await tx.update(scoringRuleVersions)
+      .set({ status: "active", activatedAt: new Date() })
+      .where(eq(scoringRuleVersions.version, version));
+  });
+}
+
+// ─── Fighter Stats ────────────────────────────────────────────────────────────
+
+export async function getUserFighterStats(userId: number, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) return [];
+  return db.select().from(userFighterStats).where(eq(userFighterStats.userId, userId)).orderBy(desc(userFighterStats.totalPicks));
+}
+
+/** A picked fighter: by canonical id when known, otherwise by name (picks made before fighter ids). */
+export interface StatFighter {
+  id: number | null;
+  name: string;
 }
 
-// ─── User Profiles ────────────────────────────────────────────────────────────
-
-export async function getUserProfile(userId: number): Promise<UserProfile | null> {
-  const db = await getDb();
-  if (!db) return null;
-  const rows = await db.select().from(userProfiles).where(eq(userProfiles.userId, userId));
-  return rows[0] ?? null;
+function fighterStatWhere(userId: number, fighter: StatFighter) {
+  return and(
+    eq(userFighterStats.userId, userId),
+    fighter.id != null ? eq(userFighterStats.fighterId, fighter.id) : eq(userFighterStats.fighterName, fighter.name),
+  );
 }
 
-export async function getProfileByUsername(username: string): Promise<UserProfile | null> {
-  const db = await getDb();
-  if (!db) return null;
-  const rows = await db.select().from(userProfiles).where(eq(userProfiles.username, username));
-  return rows[0] ?? null;
+export async function upsertFighterStat(userId: number, fighter: StatFighter, correct: boolean, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  const existing = await db.select().from(userFighterStats).where(fighterStatWhere(userId, fighter));
+  if (existing.length > 0) {
+    await db.update(userFighterStats).set({
+      totalPicks: sql`${userFighterStats.totalPicks} + 1`,
+      correctPicks: correct ? sql`${userFighterStats.correctPicks} + 1` : sql`${userFighterStats.correctPicks}`,
+    }).where(eq(userFighterStats.id, existing[0].id));
+  } else {
+    await db.insert(userFighterStats).values({ userId, fighterId: fighter.id, fighterName: fighter.name, totalPicks: 1, correctPicks: correct ? 1 : 0 });
+  }
 }
 
-export async function createUserProfile(data: InsertUserProfile): Promise<number> {
-  const db = await getDb();
+export async function setFighterStat(userId: number, fighter: StatFighter, totalPicks: number, correctPicks: number, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
   if (!db) throw new Error("Database not available");
-  const result = await db.insert(userProfiles).values(data);
-  return result[0].insertId;
+  const existing = await db.select().from(userFighterStats).where(fighterStatWhere(userId, fighter));
+  if (existing.length > 0) {
+    await db.update(userFighterStats).set({ totalPicks, correctPicks }).where(eq(userFighterStats.id, existing[0].id));
+  } else {
+    await db.insert(userFighterStats).values({ userId, fighterId: fighter.id, fighterName: fighter.name, totalPicks, correctPicks });
+  }
 }
 
-export async function updateUserProfile(userId: number, data: Partial<InsertUserProfile>) {
-  const db = await getDb();
+export async function deleteFighterStat(id: number, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
   if (!db) throw new Error("Database not available");
-  await db.update(userProfiles).set(data).where(eq(userProfiles.userId, userId));
+  await db.delete(userFighterStats).where(eq(userFighterStats.id, id));
 }
 
-export async function getLeaderboard(limit = 50) {
-  const db = await getDb();
-  if (!db) return [];
-  return db.select().from(userProfiles).orderBy(desc(userProfiles.credibilityScore)).limit(limit);
+export async function reverseFighterStat(userId: number, fighter: StatFighter, correct: boolean, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.update(userFighterStats).set({
+    totalPicks: sql`GREATEST(${userFighterStats.totalPicks} - 1, 0)`,
+    correctPicks: correct ? sql`GREATEST(${userFighterStats.correctPicks} - 1, 0)` : sql`${userFighterStats.correctPicks}`,
+  }).where(fighterStatWhere(userId, fighter));
 }
 
-// ─── Events ───────────────────────────────────────────────────────────────────
+// ─── Closing Line Value ───────────────────────────────────────────────────────
 
-export async function getUpcomingEvents(): Promise<Event[]> {
-  const db = await getDb();
-  if (!db) return [];
-  return db.select().from(events).where(eq(events.status, "upcoming")).orderBy(events.eventDate);
+/** Scored picks that have a closing line value (priced when made and at lock). */
+function hasClosingLineValue() {
+  return and(isNotNull(predictions.closingLineValue), notInArray(predictions.status, ["pending", "void"]));
 }
 
-export async function getAllEvents(): Promise<Event[]> {
+export async function getUserClosingLineValue(userId: number) {
   const db = await getDb();
-  if (!db) return [];
-  return db.select().from(events).orderBy(events.eventDate);
+  if (!db) return { picks: 0, averageClv: null, beatClosePicks: 0 };
+  const [row] = await db
+    .select({
+      picks: sql<number>`COUNT(*)`,
+      averageClv: sql<number | null>`AVG(${predictions.closingLineValue})`,
+      beatClosePicks: sql<number>`COALESCE(SUM(CASE WHEN ${predictions.closingLineValue} > 0 THEN 1 ELSE 0 END), 0)`,
+    })
+    .from(predictions)
+    .where(and(eq(predictions.userId, userId), hasClosingLineValue()));
+  return {
+    picks: Number(row?.picks ?? 0),
+    averageClv: row?.averageClv != null ? Math.round(Number(row.averageClv) * 10) / 10 : null,
+    beatClosePicks: Number(row?.beatClosePicks ?? 0),
+  };
 }
 
-export async function getEventById(id: number): Promise<Event | null> {
+/** Users ranked by average closing line value; users below minPicks are left out. */
+export async function getClosingLineValueLeaderboard(minPicks: number, limit: number) {
   const db = await getDb();
-  if (!db) return null;
-  const rows = await db.select().from(events).where(eq(events.id, id));
-  return rows[0] ?? null;
+  if (!db) return [];
+
+  const pickCount = sql<number>`COUNT(*)`;
+  const averageClv = sql<number>`AVG(${predictions.closingLineValue})`;
+  const rows = await db
+    .select({
+      userId: predictions.userId,
+      picks: pickCount,
+      averageClv,
+      beatClosePicks: sql<number>`SUM(CASE WHEN ${predictions.closingLineValue} > 0 THEN 1 ELSE 0 END)`,
+    })
+    .from(predictions)
+    .where(hasClosingLineValue())
+    .groupBy(predictions.userId)
+    .having(sql`${pickCount} >= ${minPicks}`)
+    .orderBy(desc(averageClv), desc(pickCount))
+    .limit(limit);
+
+  if (rows.length === 0) return [];
+  const profiles = await getProfileSummaries(rows.map((r) => r.userId));
+  const profileMap = new Map(profiles.map((p) => [p.userId, p]));
+
+  return rows.map((row, index) => {
+    const picks = Number(row.picks ?? 0);
+    const beatClosePicks = Number(row.beatClosePicks ?? 0);
+    return {
+      rank: index + 1,
+      userId: row.userId,
+      username: profileMap.get(row.userId)?.username ?? `user_${row.userId}`,
+      displayName: profileMap.get(row.userId)?.displayName ?? null,
+      tier: profileMap.get(row.userId)?.tier ?? "rookie",
+      picks,
+      averageClv: Math.round(Number(row.averageClv ?? 0) * 10) / 10,
+      beatClosePicks,
+      beatClosePct: picks > 0 ? Math.round((beatClosePicks / picks) * 100) : 0,
+    };
+  });
 }
 
-export async function upsertEvent(data: InsertEvent & { id?: number }) {
-  const db = await getDb();
+// ─── Result Corrections ───────────────────────────────────────────────────────
+
+export async function createResultCorrection(
+  data: Omit<typeof fightResultCorrections.$inferInsert, "id" | "createdAt">,
+  conn?: DbExecutor,
+): Promise<number> {
+  const db = conn ?? (await getDb());
   if (!db) throw new Error("Database not available");
-  if (data.id) {
-    const { id, ...rest } = data;
-    await db.update(events).set(rest).where(eq(events.id, id));
-    return id;
-  }
-  const result = await db.insert(events).values(data);
+  const result = await db.insert(fightResultCorrections).values(data);
   return result[0].insertId;
 }
 
-// ─── Fights ───────────────────────────────────────────────────────────────────
+export async function updateResultCorrectionChanges(id: number, changes: string, conn?: DbExecutor) {
+  const db = conn ?? (await getDb());
+  if (!db) throw new Error("Database not available");
+  await db.update(fightResultCorrections).set({ changes }).where(eq(fightResultCorrections.id, id));
+}
 
-export async function getFightsByEvent(eventId: number): Promise<Fight[]> {
+export async function getResultCorrections(fightId?: number): Promise<FightResultCorrection[]> {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(fights).where(eq(fights.eventId, eventId));
+  return db
+    .select()
+    .from(fightResultCorrections)
+    .where(fightId != null ? eq(fightResultCorrections.fightId, fightId) : undefined)
+    .orderBy(desc(fightResultCorrections.createdAt));
 }
 
-export async function getFightById(id: number): Promise<Fight | null> {
-  const db = await getDb();
-  if (!db) return null;
-  const rows = await db.select().from(fights).where(eq(fights.id, id));
-  return rows[0] ?? null;
-}
+// ─── Automatic Result Pipeline ────────────────────────────────────────────────
 
-export async function createFight(data: InsertFight): Promise<number> {
+export async function insertManualResults(rows: InsertManualResult[]) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  const result = await db.insert(fights).values(data);
-  return result[0].insertId;
+  if (rows.length === 0) return;
+  await db.insert(manualResults).values(rows);
 }
 
-export async function updateFightOdds(fightId: number, odds1: number, odds2: number) {
+/** Most recent admin-entered results, newest first. */
+export async function getManualResults(limit = 500): Promise<ManualResult[]> {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
-  await db.update(fights).set({ odds1, odds2, oddsUpdatedAt: new Date() }).where(eq(fights.id, fightId));
+  if (!db) return [];
+  return db.select().from(manualResults).orderBy(desc(manualResults.id)).limit(limit);
 }
 
-export async function resolveFight(
-  fightId: number,
-  winner: string,
-  finishType: "finish" | "decision",
-  method: "tko_ko" | "submission" | "decision" | "draw" | "nc",
-  round?: number,
-  fightTime?: string,
-) {
+export async function createResultReview(data: InsertResultReview): Promise<number> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  await db.update(fights).set({ winner, finishType, method, round, fightTime, status: "completed" }).where(eq(fights.id, fightId));
+  const result = await db.insert(resultReviews).values(data);
+  return result[0].insertId;
 }
 
-// ─── Predictions ──────────────────────────────────────────────────────────────
-
-export async function getUserPredictions(userId: number) {
+/** Fights with a result waiting on an admin — the poller leaves these alone. */
+export async function getFightIdsAwaitingReview(): Promise<number[]> {
   const db = await getDb();
   if (!db) return [];
-  return db
-    .select({ prediction: predictions, fight: fights, event: events })
-    .from(predictions)
-    .innerJoin(fights, eq(predictions.fightId, fights.id))
-    .innerJoin(events, eq(fights.eventId, events.id))
-    .where(eq(predictions.userId, userId))
-    .orderBy(desc(events.eventDate));
+  const rows = await db
+    .selectDistinct({ fightId: resultReviews.fightId })
+    .from(resultReviews)
+    .where(eq(resultReviews.status, "pending"));
+  return rows.map((r) => r.fightId);
 }
 
-export async function getPredictionByUserAndFight(userId: number, fightId: number): Promise<Prediction | null> {
+export async function getResultReviewById(id: number): Promise<ResultReview | undefined> {
   const db = await getDb();
-  if (!db) return null;
-  const rows = await db.select().from(predictions).where(and(eq(predictions.userId, userId), eq(predictions.fightId, fightId)));
-  return rows[0] ?? null;
+  if (!db) return undefined;
+  const rows = await db.select().from(resultReviews).where(eq(resultReviews.id, id)).limit(1);
+  return rows[0];
 }
 
-export async function upsertPrediction(userId: number, fightId: number, data: Omit<InsertPrediction, "userId" | "fightId">): Promise<number> {
+export async function updateResultReview(id: number, data: Partial<InsertResultReview>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  const existing = await getPredictionByUserAndFight(userId, fightId);
-  if (existing) {
-    if (existing.isLocked) throw new Error("Prediction is locked — fight has started");
-    await db.update(predictions).set({ ...data, updatedAt: new Date() }).where(eq(predictions.id, existing.id));
-    return existing.id;
-  }
-  const result = await db.insert(predictions).values({ userId, fightId, ...data });
-  return result[0].insertId;
+  await db.update(resultReviews).set(data).where(eq(resultReviews.id, id));
 }
 
-export async function lockPredictionsForFight(fightId: number) {
+/** Rejected proposals for these fights, so the poller does not queue the same result again. */
+export async function getRejectedResultReviews(fightIds: number[]): Promise<ResultReview[]> {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
-  await db.update(predictions).set({ isLocked: true }).where(eq(predictions.fightId, fightId));
+  if (!db || fightIds.length === 0) return [];
+  return db
+    .select()
+    .from(resultReviews)
+    .where(and(eq(resultReviews.status, "rejected"), inArray(resultReviews.fightId, fightIds)));
 }
 
-export async function getPredictionsForFight(fightId: number) {
+export async function getResultReviews(status?: ResultReview["status"], limit = 50): Promise<ResultReview[]> {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(predictions).where(eq(predictions.fightId, fightId));
+  return db
+    .select()
+    .from(resultReviews)
+    .where(status ? eq(resultReviews.status, status) : undefined)
+    .orderBy(desc(resultReviews.id))
+    .limit(limit);
 }
 
-// ─── Credibility Scoring ──────────────────────────────────────────────────────
+// ─── Job Queue ────────────────────────────────────────────────────────────────
 
-export async function insertCredibilityLog(data: {
-  userId: number; fightId: number; predictionId: number;
-  winnerPoints: number; finishTypePoints: number; methodPoints: number;
-  bonusPoints: number; totalPoints: number; breakdown: string;
-}) {
+/**
+ * Take or renew a named lease. Succeeds when the lease is free, expired or
+ * already ours; the row lock on the UPDATE makes concurrent takeovers safe.
+ */
+export async function acquireLease(name: string, holder: string, ttlMs: number): Promise<boolean> {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
-  await db.insert(credibilityLog).values(data);
+  if (!db) return false;
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlMs);
+  // Make sure the row exists; a fresh insert means we hold it
+  await db.insert(workerLeases).ignore().values({ name, holder, expiresAt });
+  await db
+    .update(workerLeases)
+    .set({ holder, expiresAt })
+    .where(and(eq(workerLeases.name, name), or(eq(workerLeases.holder, holder), lt(workerLeases.expiresAt, now))));
+  const [row] = await db.select().from(workerLeases).where(eq(workerLeases.name, name));
+  return row?.holder === holder;
 }
 
-export async function getCredibilityLog(userId: number) {
+export async function releaseLease(name: string, holder: string) {
   const db = await getDb();
-  if (!db) return [];
-  return db.select().from(credibilityLog).where(eq(credibilityLog.userId, userId)).orderBy(desc(credibilityLog.createdAt));
+  if (!db) return;
+  await db
+    .update(workerLeases)
+    .set({ expiresAt: new Date(0) })
+    .where(and(eq(workerLeases.name, name), eq(workerLeases.holder, holder)));
 }
 
-// ─── Normalized 0-100 Credibility Score Recalculation ────────────────────────
+/** Queue a job. Returns null when an active job with the same dedupeKey already exists. */
+export async function enqueueJob(data: InsertJob): Promise<number | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  // IGNORE turns a dedupeKey collision into a skipped row rather than an error
+  const result = await db.insert(jobs).ignore().values(data);
+  return result[0].affectedRows > 0 ? result[0].insertId : null;
+}
+
+/** Move a pending job forward so it runs on the next tick, replacing its payload. */
+export async function runPendingJobNow(dedupeKey: string, payload: string | null): Promise<number | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db
+    .update(jobs)
+    .set({ runAt: new Date(), payload })
+    .where(and(eq(jobs.dedupeKey, dedupeKey), eq(jobs.status, "pending")));
+  const [row] = await db.select({ id: jobs.id }).from(jobs).where(eq(jobs.dedupeKey, dedupeKey));
+  return row?.id ?? null;
+}
 
 /**
- * Recalculate the normalized 0-100 credibility score for a single user
- * from all their resolved predictions. Stores the result back to userProfiles.
+ * Claim the next due job for a worker: a pending job whose runAt has passed,
+ * or a running job whose lease expired (its worker died). An expired job that
+ * has used up its maxAttempts is failed instead of claimed. SKIP LOCKED keeps
+ * concurrent claimers off the same row.
  */
-export async function recalcNormalizedScoreForUser(userId: number): Promise<number> {
-  const { calcNormalizedCredScore } = await import("../shared/types");
-  const dbConn = await getDb();
-  if (!dbConn) return 0;
-
-  // Fetch all resolved predictions for this user, joined with fight data
-  const rows = await dbConn
-    .select({
-      predStatus: predictions.status,
-      pickedFinishType: predictions.pickedFinishType,
-      pickedMethod: predictions.pickedMethod,
-      oddsAtPrediction: predictions.oddsAtPrediction,
-      fightFinishType: fights.finishType,
-      fightMethod: fights.method,
-      fightWinner: fights.winner,
-      pickedWinner: predictions.pickedWinner,
-    })
-    .from(predictions)
-    .innerJoin(fights, eq(predictions.fightId, fights.id))
-    .where(and(eq(predictions.userId, userId), sql`${predictions.status} != 'pending'`));
-
-  const pickData = rows.map((row) => ({
-    correct: row.pickedWinner === row.fightWinner,
-    pickedFinishType: row.pickedFinishType ?? null,
-    pickedMethod: row.pickedMethod ?? null,
-    resultFinishType: row.fightFinishType ?? null,
-    resultMethod: row.fightMethod ?? null,
-    pickedFighterOdds: row.oddsAtPrediction ?? null,
-  }));
+export async function claimNextJob(workerId: string, leaseMs: number): Promise<Job | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const now = new Date();
 
-  const normalizedScore = calcNormalizedCredScore(pickData);
+  return db.transaction(async (tx) => {
+    let job: Job | undefined;
+    for (;;) {
+      [job] = await tx
+        .select()
+        .from(jobs)
+        .where(or(
+          and(eq(jobs.status, "pending"), lte(jobs.runAt, now)),
+          and(eq(jobs.status, "running"), lt(jobs.lockedUntil, now)),
+        ))
+        .orderBy(asc(jobs.runAt), asc(jobs.id))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!job) return null;
+      if (job.status !== "running") break;
 
-  // Store normalized score back to userProfiles
-  await dbConn.update(userProfiles)
-    .set({ credibilityScore: normalizedScore })
-    .where(eq(userProfiles.userId, userId));
+      // The previous attempt never reported back
+      await tx
+        .update(jobRuns)
+        .set({ status: "failed", error: "Lease expired", finishedAt: now })
+        .where(and(eq(jobRuns.jobId, job.id), eq(jobRuns.status, "running")));
+      if (job.attempts < job.maxAttempts) break;
+      // Out of attempts, as failJob would have decided — e.g. a job that keeps killing its worker
+      await tx
+        .update(jobs)
+        .set({ status: "failed", lastError: "Lease expired", dedupeKey: null, lockedBy: null, lockedUntil: null, finishedAt: now })
+        .where(eq(jobs.id, job.id));
+    }
 
-  return normalizedScore;
+    const claimed = {
+      status: "running" as const,
+      attempts: job.attempts + 1,
+      lockedBy: workerId,
+      lockedUntil: new Date(now.getTime() + leaseMs),
+    };
+    await tx.update(jobs).set(claimed).where(eq(jobs.id, job.id));
+    return { ...job, ...claimed };
+  });
 }
 
 /**
- * Recalculate normalized 0-100 scores for ALL users with profiles.
- * Used by the admin recalcAllScores endpoint.
+ * Whether a worker still holds a running job's unexpired lease. Inside a
+ * transaction the job row stays locked until it ends, so claimNextJob cannot
+ * hand the job to another worker before the transaction's writes commit.
  */
-export async function recalcAllNormalizedScores(): Promise<{ userId: number; score: number }[]> {
-  const dbConn = await getDb();
-  if (!dbConn) return [];
+export async function holdsJobLease(jobId: number, workerId: string, conn?: DbExecutor): Promise<boolean> {
+  const db = conn ?? (await getDb());
+  if (!db) return false;
+  const rows = await db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "running"), eq(jobs.lockedBy, workerId), gt(jobs.lockedUntil, new Date())))
+    .for("update");
+  return rows.length > 0;
+}
 
-  const allProfiles = await dbConn.select({ userId: userProfiles.userId }).from(userProfiles);
-  const results: { userId: number; score: number }[] = [];
+/** Push a running job's lease out while its worker still holds it. False if the lease was lost. */
+export async function renewJobLease(jobId: number, workerId: string, leaseMs: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const result = await db
+    .update(jobs)
+    .set({ lockedUntil: new Date(Date.now() + leaseMs) })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "running"), eq(jobs.lockedBy, workerId)));
+  return result[0].affectedRows > 0;
+}
 
-  for (const profile of allProfiles) {
-    const score = await recalcNormalizedScoreForUser(profile.userId);
-    results.push({ userId: profile.userId, score });
-  }
+/** Mark a claimed job succeeded and free its dedupeKey. No-op if the lease was lost. */
+export async function completeJob(jobId: number, workerId: string, result: string | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db
+    .update(jobs)
+    .set({ status: "succeeded", result, lastError: null, dedupeKey: null, lockedBy: null, lockedUntil: null, finishedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), eq(jobs.lockedBy, workerId)));
+}
 
-  return results;
+/** Record a failed attempt: requeue at retryAt, or fail for good (freeing the dedupeKey) when null. */
+export async function failJob(jobId: number, workerId: string, error: string, retryAt: Date | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db
+    .update(jobs)
+    .set(retryAt
+      ? { status: "pending", runAt: retryAt, lastError: error, lockedBy: null, lockedUntil: null }
+      : { status: "failed", lastError: error, dedupeKey: null, lockedBy: null, lockedUntil: null, finishedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), eq(jobs.lockedBy, workerId)));
 }
 
-// ─── Fighter Stats ────────────────────────────────────────────────────────────
+export async function insertJobRun(data: { jobId: number; name: string; attempt: number; workerId: string }): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(jobRuns).values(data);
+  return result[0].insertId;
+}
+
+export async function finishJobRun(
+  runId: number,
+  data: { status: "succeeded" | "failed"; result?: string | null; error?: string | null; durationMs: number },
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(jobRuns).set({ ...data, finishedAt: new Date() }).where(eq(jobRuns.id, runId));
+}
 
-export async function getUserFighterStats(userId: number) {
+export async function getJobs(filter: { status?: Job["status"]; name?: string; limit: number }): Promise<Job[]> {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(userFighterStats).where(eq(userFighterStats.userId, userId)).orderBy(desc(userFighterStats.totalPicks));
+  return db
+    .select()
+    .from(jobs)
+    .where(and(
+      filter.status ? eq(jobs.status, filter.status) : undefined,
+      filter.name ? eq(jobs.name, filter.name) : undefined,
+    ))
+    .orderBy(desc(jobs.id))
+    .limit(filter.limit);
 }
 
-export async function upsertFighterStat(userId: number, fighterName: string, correct: boolean) {
+export async function getJobRuns(filter: { jobId?: number; name?: string; limit: number }): Promise<JobRun[]> {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
-  const existing = await db.select().from(userFighterStats).where(and(eq(userFighterStats.userId, userId), eq(userFighterStats.fighterName, fighterName)));
-  if (existing.length > 0) {
-    await db.update(userFighterStats).set({
-      totalPicks: sql`${userFighterStats.totalPicks} + 1`,
-      correctPicks: correct ? sql`${userFighterStats.correctPicks} + 1` : sql`${userFighterStats.correctPicks}`,
-    }).where(eq(userFighterStats.id, existing[0].id));
-  } else {
-    await db.insert(userFighterStats).values({ userId, fighterName, totalPicks: 1, correctPicks: correct ? 1 : 0 });
-  }
+  if (!db) return [];
+  return db
+    .select()
+    .from(jobRuns)
+    .where(and(
+      filter.jobId != null ? eq(jobRuns.jobId, filter.jobId) : undefined,
+      filter.name ? eq(jobRuns.name, filter.name) : undefined,
+    ))
+    .orderBy(desc(jobRuns.id))
+    .limit(filter.limit);
 }
 
 // ─── Admin Queries ────────────────────────────────────────────────────────────
@@ -410,60 +2015,107 @@ export async function getAdminUserActivity(userId: number) {
 // ─── Event Leaderboard ────────────────────────────────────────────────────────
 
 export async function getEventLeaderboard(eventId: number, limit = 50) {
+  const { rows } = await getRankPage("event", eventId, limit);
+  return rows.map(({ rank: row, username, displayName, tier, credibilityScore }) => ({
+    rank: row.rank,
+    userId: row.userId,
+    username: username ?? `user_${row.userId}`,
+    displayName: displayName ?? null,
+    tier: tier ?? "rookie",
+    totalCredibilityScore: credibilityScore ?? 0,
+    eventCredibilityEarned: row.score,
+    correctPicks: row.correctPicks,
+    partialPicks: row.partialPicks,
+    totalPicks: row.totalPicks,
+    perfectPicks: row.perfectPicks,
+    accuracy: row.totalPicks > 0 ? Math.round((row.correctPicks / row.totalPicks) * 100) : 0,
+  }));
+}
+
+// ─── Filtered Leaderboards ────────────────────────────────────────────────────
+
+export interface LeaderboardFilter {
+  weightClass?: string;
+  cardSection?: Fight["cardSection"];
+  titleFightsOnly?: boolean;
+  fighterName?: string;
+  fighterId?: number;
+  minPicks: number;
+  sortBy: "points" | "accuracy";
+  limit: number;
+}
+
+/**
+ * Standings over a slice of fights (weight class, card section, title fights,
+ * or a single fighter's bouts), aggregated from active scored credibility_log
+ * rows. Users below minPicks in the slice are left out so one lucky pick
+ * cannot top the board.
+ */
+export async function getFilteredLeaderboard(filter: LeaderboardFilter) {
   const db = await getDb();
   if (!db) return [];
 
-  // Aggregate credibility earned per user for all fights in this event
+  const conditions: SQL[] = [isNull(credibilityLog.reversedAt), eq(credibilityLog.status, "scored")];
+  if (filter.weightClass) conditions.push(eq(fights.weightClass, filter.weightClass));
+  if (filter.cardSection) conditions.push(eq(fights.cardSection, filter.cardSection));
+  if (filter.titleFightsOnly) conditions.push(eq(fights.isTitleFight, true));
+  if (filter.fighterName) {
+    conditions.push(or(eq(fights.fighter1Name, filter.fighterName), eq(fights.fighter2Name, filter.fighterName))!);
+  }
+  if (filter.fighterId != null) {
+    conditions.push(or(eq(fights.fighter1Id, filter.fighterId), eq(fights.fighter2Id, filter.fighterId))!);
+  }
+
+  const pointsSum = sql<number>`SUM(${credibilityLog.totalPoints})`;
+  const pickCount = sql<number>`COUNT(DISTINCT ${credibilityLog.predictionId})`;
+  const correctCount = sql<number>`SUM(CASE WHEN ${credibilityLog.winnerPoints} > 0 THEN 1 ELSE 0 END)`;
+  const accuracy = sql<number>`${correctCount} / ${pickCount}`;
+
   const rows = await db
     .select({
       userId: credibilityLog.userId,
-      totalEarned: sql<number>`SUM(${credibilityLog.totalPoints})`,
-      correctPicks: sql<number>`SUM(CASE WHEN p.status = 'correct' THEN 1 ELSE 0 END)`,
-      partialPicks: sql<number>`SUM(CASE WHEN p.status = 'partial' THEN 1 ELSE 0 END)`,
-      totalPicks: sql<number>`COUNT(DISTINCT ${credibilityLog.predictionId})`,
-      perfectPicks: sql<number>`SUM(CASE WHEN p.winnerPoints > 0 AND p.finishTypePoints > 0 AND p.methodPoints > 0 AND p.bonusPoints > 0 THEN 1 ELSE 0 END)`,
+      points: pointsSum,
+      totalPicks: pickCount,
+      correctPicks: correctCount,
     })
     .from(credibilityLog)
     .innerJoin(fights, eq(credibilityLog.fightId, fights.id))
-    .innerJoin(predictions, eq(credibilityLog.predictionId, predictions.id))
-    .where(eq(fights.eventId, eventId))
+    .where(and(...conditions))
     .groupBy(credibilityLog.userId)
-    .orderBy(desc(sql<number>`SUM(${credibilityLog.totalPoints})`))
-    .limit(limit);
+    .having(sql`${pickCount} >= ${filter.minPicks}`)
+    .orderBy(...(filter.sortBy === "accuracy" ? [desc(accuracy), desc(pointsSum)] : [desc(pointsSum), desc(accuracy)]))
+    .limit(filter.limit);
 
-  // Fetch profiles for these users
   if (rows.length === 0) return [];
-  const userIds = rows.map((r) => r.userId);
-  const profiles = await db
-    .select({
-      userId: userProfiles.userId,
-      username: userProfiles.username,
-      displayName: userProfiles.displayName,
-      tier: userProfiles.tier,
-      credibilityScore: userProfiles.credibilityScore,
-    })
-    .from(userProfiles)
-    .where(inArray(userProfiles.userId, userIds));
-
+  const profiles = await getProfileSummaries(rows.map((r) => r.userId));
   const profileMap = new Map(profiles.map((p) => [p.userId, p]));
 
-  return rows.map((row, index) => ({
-    rank: index + 1,
-    userId: row.userId,
-    username: profileMap.get(row.userId)?.username ?? `user_${row.userId}`,
-    displayName: profileMap.get(row.userId)?.displayName ?? null,
-    tier: profileMap.get(row.userId)?.tier ?? "rookie",
-    totalCredibilityScore: profileMap.get(row.userId)?.credibilityScore ?? 0,
-    eventCredibilityEarned: row.totalEarned ?? 0,
-    correctPicks: row.correctPicks ?? 0,
-    partialPicks: row.partialPicks ?? 0,
-    totalPicks: row.totalPicks ?? 0,
-    perfectPicks: row.perfectPicks ?? 0,
-    accuracy:
-      row.totalPicks > 0
-        ? Math.round(((row.correctPicks ?? 0) / row.totalPicks) * 100)
-        : 0,
-  }));
+  return rows.map((row, index) => {
+    const totalPicks = Number(row.totalPicks ?? 0);
+    const correctPicks = Number(row.correctPicks ?? 0);
+    return {
+      rank: index + 1,
+      userId: row.userId,
+      username: profileMap.get(row.userId)?.username ?? `user_${row.userId}`,
+      displayName: profileMap.get(row.userId)?.displayName ?? null,
+      tier: profileMap.get(row.userId)?.tier ?? "rookie",
+      points: Number(row.points ?? 0),
+      totalPicks,
+      correctPicks,
+      accuracy: totalPicks > 0 ? Math.round((correctPicks / totalPicks) * 100) : 0,
+    };
+  });
+}
+
+export async function getWeightClasses(): Promise<string[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .selectDistinct({ weightClass: fights.weightClass })
+    .from(fights)
+    .where(isNotNull(fights.weightClass))
+    .orderBy(fights.weightClass);
+  return rows.map((r) => r.weightClass).filter((w): w is string => w != null);
 }
 
 export async function getEventPredictionStats(eventId: number) {
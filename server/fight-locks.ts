@@ -0,0 +1,97 @@
+/**
+ * FightCred — Automatic Prediction Locking
+ *
+ * Picks close when a fight starts. A fight starts at its scheduledStartTime,
+ * or at its event's eventDate when it has no time of its own, and its
+ * predictions lock PREDICTION_LOCK_BUFFER_MINUTES before that.
+ *
+ * Every sweep (the "fights.autoLock" background job, see jobs.ts):
+ *   1. Cards that are due to start are marked live. With
+ *      PREDICTION_LOCK_SCOPE=card every fight on the card locks at that point
+ *      (fights keep their "upcoming" status until they start themselves).
+ *   2. Fights that are due are locked and moved to "live".
+ *
+ * All state lives in the database (fights.lockedAt, fights.status and
+ * events.status) and every step only touches rows still open, so sweeps are
+ * idempotent and a restart simply resumes on the next sweep — there are no
+ * per-fight timers to lose. The manual lock procedures use the same lockFight().
+ */
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import type { Event, Fight } from "../shared/types";
+
+export interface LockSweepReport {
+  eventsStarted: number;
+  fightsLocked: number;
+  errors: string[];
+}
+
+/** Anything starting at or before this instant should already be locked. */
+function lockCutoff(now: Date) {
+  return new Date(now.getTime() + ENV.predictionLockBufferMinutes * 60 * 1000);
+}
+
+/** Whether a fight still accepts picks — the same start time and cutoff the sweep locks on. */
+export function isFightOpenForPicks(fight: Fight, event: Pick<Event, "eventDate">, now = new Date()): boolean {
+  if (fight.status !== "upcoming" || fight.lockedAt) return false;
+  return (fight.scheduledStartTime ?? event.eventDate) > lockCutoff(now);
+}
+
+// ─── Locks ────────────────────────────────────────────────────────────────────
+
+/** Close picks on a fight and move it to "live". */
+export async function lockFight(fightId: number) {
+  const drizzleDb = await db.getDb();
+  if (!drizzleDb) throw new Error("Database not available");
+  await drizzleDb.transaction(async (tx) => {
+    await db.lockFight(fightId, tx);
+  });
+}
+
+/** A card has started: mark the event live and, under the "card" scope, lock every fight on it. */
+export async function startEvent(eventId: number) {
+  await db.updateEventStatus(eventId, "live");
+  if (ENV.predictionLockScope === "card") {
+    const drizzleDb = await db.getDb();
+    if (!drizzleDb) throw new Error("Database not available");
+    await drizzleDb.transaction(async (tx) => {
+      await db.lockEventFights(eventId, tx);
+    });
+  }
+}
+
+// ─── Sweep ────────────────────────────────────────────────────────────────────
+
+export async function runLockSweep(now = new Date()): Promise<LockSweepReport> {
+  const cutoff = lockCutoff(now);
+  const errors: string[] = [];
+  let eventsStarted = 0;
+  let fightsLocked = 0;
+
+  for (const event of await db.getEventsDueToStart(cutoff)) {
+    try {
+      await startEvent(event.id);
+      eventsStarted++;
+      console.log(`[LockScheduler] Card started: ${event.name}`);
+    } catch (err) {
+      const msg = `Error starting event ${event.name}: ${err}`;
+      console.error(`[LockScheduler] ${msg}`);
+      errors.push(msg);
+    }
+  }
+
+  for (const fight of await db.getFightsDueForLock(cutoff)) {
+    try {
+      await lockFight(fight.id);
+      fightsLocked++;
+      console.log(`[LockScheduler] 🔒 Locked: ${fight.fighter1Name} vs ${fight.fighter2Name}`);
+    } catch (err) {
+      const msg = `Error locking ${fight.fighter1Name} vs ${fight.fighter2Name}: ${err}`;
+      console.error(`[LockScheduler] ${msg}`);
+      errors.push(msg);
+    }
+  }
+
+  return { eventsStarted, fightsLocked, errors };
+}
@@ -0,0 +1,608 @@
+/**
+ * FightCred — Fight Resolution Service
+ *
+ * The single scoring pipeline shared by fights.resolve, admin.resolveFight and
+ * the automated result poller. Resolving a fight:
+ *   1. Records the result on the fight and locks its predictions
+ *   2. Scores every prediction (calculateCredibility + status derivation)
+ *   3. Writes a credibility_log row per prediction
+ *   4. Updates profile counters, streaks and userFighterStats
+ *   5. Recalculates the normalized 0-100 score and tier of every affected user
+ *
+ * Everything runs inside one database transaction, so a failure part-way
+ * through a card leaves no prediction half-scored. Once it commits, the
+ * affected users' leaderboard_ranks rows are refreshed.
+ *
+ * No contests, cancelled fights and (depending on DRAW_POLICY) draws void
+ * every pick: the prediction is marked "void", a zero-point log row is kept
+ * for the record, and counters, streaks and scores are left untouched.
+ *
+ * Resolving an already-completed fight is treated as a result correction:
+ * the previous scoring is reversed before the new result is applied, so
+ * retries and overturned results never double-count.
+ */
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { updateRanksForFight } from "./leaderboard-ranks";
+import { getActiveScoringRules, getScoringRulesVersion, type ActiveScoringRules } from "./scoring-rules";
+import {
+  calculateCredibility,
+  getClosingLineValue,
+  DEFAULT_SCORING_RULES,
+  getPickProbability,
+  getTierFromScore,
+  isPickedWinner,
+  isVoidingResult,
+  type CredibilityBreakdown,
+  type CredibilityLog,
+  type CredibilityTier,
+  type FinishType,
+  type MethodType,
+  type Fight,
+  type InsertUserProfile,
+  type Prediction,
+  type PredictionStatus,
+  type ScoringRules,
+  type UserProfile,
+} from "../shared/types";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface FightResultInput extends db.FightResultDetails {
+  fightId: number;
+  winner: string;
+  finishType: FinishType;
+  method: MethodType;
+}
+
+export interface TierChange {
+  userId: number;
+  previousTier: CredibilityTier;
+  newTier: CredibilityTier;
+  previousScore: number;
+  newScore: number;
+}
+
+export interface ResolutionReport {
+  fightId: number;
+  winner: string;
+  method: MethodType;
+  predictionsScored: number;
+  usersAffected: number;
+  tierChanges: TierChange[];
+}
+
+export interface UserCorrectionChange {
+  userId: number;
+  predictionId: number;
+  previousStatus: PredictionStatus;
+  newStatus: PredictionStatus;
+  previousPoints: number;
+  newPoints: number;
+  previousScore: number;
+  newScore: number;
+}
+
+export interface CorrectionReport extends ResolutionReport {
+  /** False when the fight already carried this exact result — nothing was touched. */
+  changed: boolean;
+  correctionId: number | null;
+  userChanges: UserCorrectionChange[];
+}
+
+export interface CancellationReport {
+  fightId: number;
+  predictionsVoided: number;
+  usersAffected: number;
+}
+
+type FightResult = Pick<FightResultInput, "winner" | "winnerId" | "finishType" | "method">;
+
+export interface ScoredPrediction {
+  status: Exclude<PredictionStatus, "pending">;
+  breakdown: CredibilityBreakdown;
+  pickedOdds: number | null;
+  correctWinner: boolean;
+  correctFinish: boolean;
+  correctMethod: boolean;
+  isUnderdog: boolean;
+}
+
+/** What a scored pick adds to the profile counters. */
+type CounterFlags = Pick<ScoredPrediction, "correctWinner" | "correctFinish" | "correctMethod" | "isUnderdog">;
+
+/** A credibility_log breakdown; scored rows also keep the counter flags they applied. */
+type LoggedBreakdown = CredibilityBreakdown & { counters?: CounterFlags };
+
+// ─── Scoring ──────────────────────────────────────────────────────────────────
+
+function voidBreakdown(pickedOdds: number | null, opponentOdds: number | null): CredibilityBreakdown {
+  const impliedProb = getPickProbability(pickedOdds, opponentOdds);
+  return {
+    winnerPoints: 0,
+    finishTypePoints: 0,
+    methodPoints: 0,
+    underdogBonus: 0,
+    perfectPickBonus: 0,
+    totalPoints: 0,
+    penalty: 0,
+    multiplier: Math.round((1 / impliedProb) * 100) / 100,
+    impliedProbability: Math.round(impliedProb * 100),
+  };
+}
+
+/** Whether the pick's finish type and method match the result, whoever won. */
+function finishMatches(pred: Prediction, result: FightResult) {
+  const correctFinish = pred.pickedFinishType === result.finishType;
+  const correctMethod =
+    result.finishType === "finish" &&
+    pred.pickedFinishType === "finish" &&
+    pred.pickedMethod != null &&
+    ((result.method === "tko_ko" && pred.pickedMethod === "tko_ko") ||
+      (result.method === "submission" && pred.pickedMethod === "submission"));
+  return { correctFinish, correctMethod };
+}
+
+/** Score a prediction against a result; a null result means the fight was cancelled. */
+export function scorePrediction(
+  pred: Prediction,
+  fight: Fight,
+  result: FightResult | null,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): ScoredPrediction {
+  const pickedFighter1 = isPickedWinner(pred, { winner: fight.fighter1Name, winnerId: fight.fighter1Id });
+  const pickedOdds = (pickedFighter1 ? fight.odds1 : fight.odds2) ?? null;
+  const opponentOdds = (pickedFighter1 ? fight.odds2 : fight.odds1) ?? null;
+  const closingOdds = (pickedFighter1 ? fight.closingOdds1 : fight.closingOdds2) ?? null;
+
+  if (result == null || isVoidingResult(result.method, ENV.drawPolicy)) {
+    return {
+      status: "void",
+      breakdown: voidBreakdown(pickedOdds, opponentOdds),
+      pickedOdds,
+      correctWinner: false,
+      correctFinish: false,
+      correctMethod: false,
+      isUnderdog: false,
+    };
+  }
+
+  const breakdown: CredibilityBreakdown = {
+    ...calculateCredibility(
+      { pickedWinner: pred.pickedWinner, pickedWinnerId: pred.pickedWinnerId, pickedFinishType: pred.pickedFinishType, pickedMethod: pred.pickedMethod },
+      result,
+      pickedOdds,
+      rules,
+      opponentOdds,
+    ),
+    closingLineValue: pred.oddsAtPrediction != null && closingOdds != null ? getClosingLineValue(pred.oddsAtPrediction, closingOdds) : null,
+  };
+
+  const correctWinner = isPickedWinner(pred, result);
+  const { correctFinish, correctMethod } = finishMatches(pred, result);
+
+  let status: ScoredPrediction["status"] = "wrong";
+  if (correctWinner && correctFinish && (result.finishType === "decision" || correctMethod)) {
+    status = "correct";
+  } else if (correctWinner || correctFinish) {
+    status = "partial";
+  }
+
+  return {
+    status,
+    breakdown,
+    pickedOdds,
+    correctWinner,
+    correctFinish,
+    correctMethod,
+    isUnderdog: pickedOdds != null && pickedOdds >= rules.underdogThreshold,
+  };
+}
+
+// ─── Profile counters ─────────────────────────────────────────────────────────
+
+/** Counter changes for adding (direction 1) or reversing (direction -1) one scored pick. */
+function counterDelta(
+  profile: UserProfile,
+  pred: Prediction,
+  scored: CounterFlags,
+  direction: 1 | -1,
+): Partial<InsertUserProfile> {
+  const step = (flag: boolean) => (flag ? direction : 0);
+  return {
+    totalPicks: profile.totalPicks + direction,
+    correctPicks: profile.correctPicks + step(scored.correctWinner),
+    correctFinishPicks: profile.correctFinishPicks + step(scored.correctFinish),
+    totalFinishPicks: profile.totalFinishPicks + step(pred.pickedFinishType != null),
+    correctMethodPicks: profile.correctMethodPicks + step(scored.correctMethod),
+    totalMethodPicks: profile.totalMethodPicks + step(pred.pickedMethod != null),
+    correctUnderdogPicks: profile.correctUnderdogPicks + step(scored.isUnderdog && scored.correctWinner),
+    totalUnderdogPicks: profile.totalUnderdogPicks + step(scored.isUnderdog),
+  };
+}
+
+/**
+ * The counter flags a scored log row applied. Rows written before the flags
+ * were stored get them back from their own points, the pick and the result
+ * it was scored against, and the underdog line of the rule version that
+ * scored them.
+ */
+async function loggedCounterFlags(row: CredibilityLog, pred: Prediction, fight: Fight, result: FightResult): Promise<CounterFlags> {
+  const breakdown = row.breakdown ? (JSON.parse(row.breakdown) as LoggedBreakdown) : null;
+  if (breakdown?.counters) return breakdown.counters;
+
+  const correctWinner = row.winnerPoints > 0;
+  let isUnderdog = correctWinner && breakdown != null && breakdown.underdogBonus > 0;
+  // Wrong picks earn no bonus, so compare the line they were scored at (closed at lock)
+  if (!correctWinner || breakdown == null) {
+    const pickedFighter1 = isPickedWinner(pred, { winner: fight.fighter1Name, winnerId: fight.fighter1Id });
+    const pickedOdds = pickedFighter1 ? (fight.closingOdds1 ?? fight.odds1) : (fight.closingOdds2 ?? fight.odds2);
+    const rules = await getScoringRulesVersion(row.ruleVersion);
+    isUnderdog = pickedOdds != null && pickedOdds >= rules.underdogThreshold;
+  }
+  return { correctWinner, ...finishMatches(pred, result), isUnderdog };
+}
+
+/** Recompute currentStreak and bestStreak from the user's resolved picks in fight order. */
+async function rebuildStreaks(userId: number, tx: db.DbTransaction) {
+  const history = await db.getResolvedPickHistory(userId, tx);
+  let currentStreak = 0;
+  let bestStreak = 0;
+  for (const pick of history) {
+    currentStreak = isPickedWinner(pick, { winner: pick.fightWinner, winnerId: pick.fightWinnerId }) ? currentStreak + 1 : 0;
+    bestStreak = Math.max(bestStreak, currentStreak);
+  }
+  await db.updateUserProfile(userId, { currentStreak, bestStreak }, tx);
+}
+
+// ─── Pipeline steps ───────────────────────────────────────────────────────────
+
+// Kept with the log row so a later correction can reverse exactly what was applied
+function loggedBreakdown(scored: ScoredPrediction): LoggedBreakdown {
+  if (scored.status === "void") return scored.breakdown;
+  const { correctWinner, correctFinish, correctMethod, isUnderdog } = scored;
+  return { ...scored.breakdown, counters: { correctWinner, correctFinish, correctMethod, isUnderdog } };
+}
+
+/**
+ * Score each prediction against the result and apply it to logs, counters and fighter stats.
+ * Voided picks only get their status and a zero-point log row.
+ */
+async function applyScoring(
+  tx: db.DbTransaction,
+  fight: Fight,
+  preds: Prediction[],
+  result: FightResult | null,
+  active: ActiveScoringRules,
+) {
+  const scoredById = new Map<number, ScoredPrediction>();
+
+  for (const pred of preds) {
+    const scored = scorePrediction(pred, fight, result, active.rules);
+    scoredById.set(pred.id, scored);
+    const { breakdown } = scored;
+    const bonusPoints = breakdown.underdogBonus + breakdown.perfectPickBonus;
+
+    await db.updatePredictionScore(pred.id, {
+      status: scored.status,
+      winnerPoints: breakdown.winnerPoints,
+      finishTypePoints: breakdown.finishTypePoints,
+      methodPoints: breakdown.methodPoints,
+      bonusPoints,
+      totalPoints: breakdown.totalPoints,
+      closingLineValue: breakdown.closingLineValue ?? null,
+    }, tx);
+
+    await db.insertCredibilityLog({
+      userId: pred.userId,
+      fightId: fight.id,
+      predictionId: pred.id,
+      winnerPoints: breakdown.winnerPoints,
+      finishTypePoints: breakdown.finishTypePoints,
+      methodPoints: breakdown.methodPoints,
+      bonusPoints,
+      totalPoints: breakdown.totalPoints,
+      breakdown: JSON.stringify(loggedBreakdown(scored)),
+      status: scored.status === "void" ? "void" : "scored",
+      ruleVersion: active.version,
+    }, tx);
+
+    if (scored.status === "void") continue;
+
+    const profile = await db.getUserProfile(pred.userId, tx);
+    if (profile) {
+      const newStreak = scored.correctWinner ? profile.currentStreak + 1 : 0;
+
+      // Update counters only — normalized score recalculated afterwards
+      await db.updateUserProfile(pred.userId, {
+        ...counterDelta(profile, pred, scored, 1),
+        currentStreak: newStreak,
+        bestStreak: Math.max(profile.bestStreak, newStreak),
+      }, tx);
+
+      await db.upsertFighterStat(pred.userId, { id: pred.pickedWinnerId, name: pred.pickedWinner }, scored.correctWinner, tx);
+    }
+  }
+
+  return scoredById;
+}
+
+/**
+ * Undo the scoring a previous result applied, as recorded on the fight's
+ * active credibility_log rows — not by re-scoring, since odds, rules or the
+ * draw policy may have changed since. Counters and fighter stats are
+ * decremented for scored rows and every row is marked reversed. Streaks are
+ * rebuilt from history once the new result has been applied.
+ */
+async function reverseScoring(
+  tx: db.DbTransaction,
+  fight: Fight,
+  preds: Prediction[],
+  previous: FightResult,
+  correctionId: number,
+) {
+  const predsById = new Map(preds.map((p) => [p.id, p]));
+
+  for (const row of await db.getActiveCredibilityLogForFight(fight.id, tx)) {
+    const pred = predsById.get(row.predictionId);
+    if (!pred || row.status === "void") continue;
+    const flags = await loggedCounterFlags(row, pred, fight, previous);
+    const profile = await db.getUserProfile(pred.userId, tx);
+    if (profile) {
+      await db.updateUserProfile(pred.userId, counterDelta(profile, pred, flags, -1), tx);
+      await db.reverseFighterStat(pred.userId, { id: pred.pickedWinnerId, name: pred.pickedWinner }, flags.correctWinner, tx);
+    }
+  }
+
+  await db.reverseCredibilityLogForFight(fight.id, correctionId, tx);
+}
+
+/** Recalculate the normalized score and tier of each user, reporting tier movements. */
+async function refreshScores(
+  tx: db.DbTransaction,
+  userIds: number[],
+  scoresBefore: Map<number, UserProfile>,
+  rules: ScoringRules,
+) {
+  const tierChanges: TierChange[] = [];
+  const newScores = new Map<number, number>();
+
+  for (const userId of userIds) {
+    const before = scoresBefore.get(userId);
+    if (!before) continue;
+    const newScore = await db.recalcNormalizedScoreForUser(userId, tx, rules);
+    const newTier = getTierFromScore(newScore);
+    newScores.set(userId, newScore);
+    await db.updateUserProfile(userId, { tier: newTier }, tx);
+    if (newTier !== before.tier) {
+      tierChanges.push({
+        userId,
+        previousTier: before.tier,
+        newTier,
+        previousScore: before.credibilityScore,
+        newScore,
+      });
+    }
+  }
+
+  return { tierChanges, newScores };
+}
+
+async function loadProfiles(tx: db.DbTransaction, userIds: number[]) {
+  const profiles = new Map<number, UserProfile>();
+  for (const userId of userIds) {
+    const profile = await db.getUserProfile(userId, tx);
+    if (profile) profiles.set(userId, profile);
+  }
+  return profiles;
+}
+
+/**
+ * Ranks are derived data, so a failed refresh must not fail a resolve that
+ * already committed — it is logged and healed by the next update or a rebuild.
+ */
+async function refreshRanks(fightId: number) {
+  try {
+    await updateRanksForFight(fightId);
+  } catch (error) {
+    console.error(`[Ranks] Failed to update leaderboard ranks for fight ${fightId}:`, error);
+  }
+}
+
+/** The input with the winner's fighter id filled in from the fight when the caller only named them. */
+function withWinnerId(fight: Fight, input: FightResultInput): FightResultInput {
+  if (input.winnerId !== undefined) return input;
+  const winnerId =
+    input.winner === fight.fighter1Name ? fight.fighter1Id
+    : input.winner === fight.fighter2Name ? fight.fighter2Id
+    : null;
+  return { ...input, winnerId };
+}
+
+function sameResult(fight: Fight, input: FightResultInput): boolean {
+  return (
+    fight.winner === input.winner &&
+    fight.finishType === input.finishType &&
+    fight.method === input.method &&
+    (input.round === undefined || fight.round === input.round) &&
+    (input.fightTime === undefined || fight.fightTime === input.fightTime) &&
+    (input.methodDetail === undefined || fight.methodDetail === input.methodDetail) &&
+    (input.decisionType === undefined || fight.decisionType === input.decisionType) &&
+    (input.referee === undefined || fight.referee === input.referee)
+  );
+}
+
+// ─── Resolution ───────────────────────────────────────────────────────────────
+
+/**
+ * Resolve a fight and score all of its predictions in a single transaction.
+ * If the fight has already been resolved this performs a result correction instead.
+ * Returns a report of what was scored so callers can surface it.
+ */
+export async function resolveFightResult(resultInput: FightResultInput): Promise<ResolutionReport> {
+  const drizzleDb = await db.getDb();
+  if (!drizzleDb) throw new Error("Database not available");
+
+  const report = await drizzleDb.transaction(async (tx): Promise<ResolutionReport | CorrectionReport> => {
+    const fight = await db.getFightById(resultInput.fightId, tx);
+    if (!fight) throw new Error("Fight not found");
+    const input = withWinnerId(fight, resultInput);
+    if (fight.status === "completed") return correctWithin(tx, fight, input, null);
+    if (fight.status === "cancelled") throw new Error("Fight was cancelled");
+    const active = await getActiveScoringRules(tx);
+
+    await db.resolveFight(input.fightId, input.winner, input.finishType, input.method, input, tx);
+    await db.lockPredictionsForFight(input.fightId, tx);
+
+    const allPredictions = await db.getPredictionsForFight(input.fightId, tx);
+    const affectedUserIds = [...new Set(allPredictions.map((p) => p.userId))];
+    const profilesBefore = await loadProfiles(tx, affectedUserIds);
+
+    await applyScoring(tx, fight, allPredictions, input, active);
+    const { tierChanges } = await refreshScores(tx, affectedUserIds, profilesBefore, active.rules);
+
+    return {
+      fightId: input.fightId,
+      winner: input.winner,
+      method: input.method,
+      predictionsScored: allPredictions.length,
+      usersAffected: affectedUserIds.length,
+      tierChanges,
+    };
+  });
+
+  if (!("changed" in report) || report.changed) await refreshRanks(resultInput.fightId);
+  return report;
+}
+
+/**
+ * Cancel a fight that has not been resolved: every prediction on it is voided
+ * with no score impact. Completed fights should be corrected to a no contest instead.
+ */
+export async function cancelFight(fightId: number): Promise<CancellationReport> {
+  const drizzleDb = await db.getDb();
+  if (!drizzleDb) throw new Error("Database not available");
+
+  return drizzleDb.transaction(async (tx) => {
+    const fight = await db.getFightById(fightId, tx);
+    if (!fight) throw new Error("Fight not found");
+    if (fight.status === "completed") throw new Error("Fight already resolved — correct the result to a no contest instead");
+
+    await db.updateFightStatus(fightId, "cancelled", tx);
+    await db.lockPredictionsForFight(fightId, tx);
+
+    // Only void picks that were never scored, so repeated cancels are harmless
+    const pending = (await db.getPredictionsForFight(fightId, tx)).filter((p) => p.status === "pending");
+    await applyScoring(tx, fight, pending, null, await getActiveScoringRules(tx));
+
+    return {
+      fightId,
+      predictionsVoided: pending.length,
+      usersAffected: new Set(pending.map((p) => p.userId)).size,
+    };
+  });
+}
+
+/**
+ * Replace the result of an already-resolved fight: reverses the previous
+ * scoring for every prediction, re-applies scoring against the new result and
+ * records an audit entry with each user's before/after. Calling it again with
+ * the same result is a no-op.
+ */
+export async function correctFightResult(input: FightResultInput & { reason?: string }): Promise<CorrectionReport> {
+  const drizzleDb = await db.getDb();
+  if (!drizzleDb) throw new Error("Database not available");
+
+  const report = await drizzleDb.transaction(async (tx) => {
+    const fight = await db.getFightById(input.fightId, tx);
+    if (!fight) throw new Error("Fight not found");
+    if (fight.status !== "completed") throw new Error("Fight has not been resolved yet");
+    return correctWithin(tx, fight, input, input.reason ?? null);
+  });
+
+  if (report.changed) await refreshRanks(input.fightId);
+  return report;
+}
+
+async function correctWithin(
+  tx: db.DbTransaction,
+  fight: Fight,
+  resultInput: FightResultInput,
+  reason: string | null,
+): Promise<CorrectionReport> {
+  const input = withWinnerId(fight, resultInput);
+  if (sameResult(fight, input)) {
+    return {
+      fightId: fight.id,
+      winner: input.winner,
+      method: input.method,
+      predictionsScored: 0,
+      usersAffected: 0,
+      tierChanges: [],
+      changed: false,
+      correctionId: null,
+      userChanges: [],
+    };
+  }
+
+  const correctionId = await db.createResultCorrection({
+    fightId: fight.id,
+    previousWinner: fight.winner,
+    previousFinishType: fight.finishType,
+    previousMethod: fight.method,
+    newWinner: input.winner,
+    newFinishType: input.finishType,
+    newMethod: input.method,
+    reason,
+  }, tx);
+
+  const active = await getActiveScoringRules(tx);
+  const allPredictions = await db.getPredictionsForFight(fight.id, tx);
+  const affectedUserIds = [...new Set(allPredictions.map((p) => p.userId))];
+  const profilesBefore = await loadProfiles(tx, affectedUserIds);
+
+  if (fight.winner != null && fight.finishType != null && fight.method != null) {
+    await reverseScoring(tx, fight, allPredictions, {
+      winner: fight.winner,
+      winnerId: fight.winnerId,
+      finishType: fight.finishType,
+      method: fight.method,
+    }, correctionId);
+  }
+
+  await db.resolveFight(fight.id, input.winner, input.finishType, input.method, input, tx);
+  const scoredById = await applyScoring(tx, fight, allPredictions, input, active);
+  for (const userId of affectedUserIds) {
+    await rebuildStreaks(userId, tx);
+  }
+  const { tierChanges, newScores } = await refreshScores(tx, affectedUserIds, profilesBefore, active.rules);
+
+  const userChanges: UserCorrectionChange[] = allPredictions.map((pred) => {
+    const scored = scoredById.get(pred.id);
+    const before = profilesBefore.get(pred.userId);
+    return {
+      userId: pred.userId,
+      predictionId: pred.id,
+      previousStatus: pred.status,
+      newStatus: scored?.status ?? pred.status,
+      previousPoints: pred.totalPoints,
+      newPoints: scored?.breakdown.totalPoints ?? pred.totalPoints,
+      previousScore: before?.credibilityScore ?? 0,
+      newScore: newScores.get(pred.userId) ?? before?.credibilityScore ?? 0,
+    };
+  });
+  await db.updateResultCorrectionChanges(correctionId, JSON.stringify(userChanges), tx);
+
+  return {
+    fightId: fight.id,
+    winner: input.winner,
+    method: input.method,
+    predictionsScored: allPredictions.length,
+    usersAffected: affectedUserIds.length,
+    tierChanges,
+    changed: true,
+    correctionId,
+    userChanges,
+  };
+}
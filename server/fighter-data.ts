@@ -29,6 +29,15 @@ const UFC_ATHLETE_BASE = "https://www.ufc.com/athlete";
 // MMA Stats (for historical data)
 const MMA_STATS_BASE = "http://ufcstats.com/statistics/fighters";
 
+/** UFC athlete slug for a name (e.g. "Jon Jones" -> "jon-jones"). */
+export function fighterSlug(fighterName: string): string {
+  return fighterName
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
 /**
  * Fetch fighter profile from UFC's public CDN API.
  * Falls back to a placeholder if not found.
@@ -45,68 +54,66 @@ export async function fetchFighterProfile(fighterName: string): Promise<FighterP
   };
 
   try {
-    // Normalize name for URL slug (e.g. "Jon Jones" -> "jon-jones")
-    const slug = fighterName
-      .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, "")
-      .trim()
-      .replace(/\s+/g, "-");
-
-    // Try UFC athlete API
-    const res = await axios.get(
-      `${UFC_API_BASE}/athlete/${slug}/bio.json`,
-      { timeout: 5000 }
-    );
-
-    const data = res.data;
-    if (!data) return defaultProfile;
-
-    // Parse recent results
-    const recentResults: RecentResult[] = [];
-    if (data.FightHistory && Array.isArray(data.FightHistory)) {
-      for (const fight of data.FightHistory.slice(0, 5)) {
-        recentResults.push({
-          opponent: fight.Opponent?.Name ?? "Unknown",
-          result: fight.Result?.Outcome === "W" ? "W"
-            : fight.Result?.Outcome === "L" ? "L"
-            : fight.Result?.Outcome === "D" ? "D"
-            : "NC",
-          method: fight.Result?.Method ?? "",
-          event: fight.Event?.Name ?? "",
-          date: fight.Event?.Date ?? "",
-        });
-      }
-    }
-
-    return {
-      name: fighterName,
-      imageUrl: data.ProfileMainImage ?? data.Image ?? null,
-      nickname: data.Nickname ?? null,
-      nationality: data.Nationality ?? data.Country ?? null,
-      record: data.Record
-        ? `${data.Record.Wins}-${data.Record.Losses}-${data.Record.Draws}`
-        : null,
-      ranking: data.Rankings?.[0]?.Rank != null
-        ? data.Rankings[0].Rank === 0 ? "C" : `#${data.Rankings[0].Rank}`
-        : null,
-      recentResults,
-    };
+    return (await lookupFighterProfile(fighterName, fighterSlug(fighterName))) ?? defaultProfile;
   } catch (e) {
     // Silently fall back
     return defaultProfile;
   }
 }
 
+/**
+ * Fetch a fighter's UFC bio by athlete slug. Returns null when UFC has no such
+ * athlete; network and server errors are thrown so callers can retry.
+ */
+export async function lookupFighterProfile(fighterName: string, slug: string): Promise<FighterProfile | null> {
+  let data;
+  try {
+    const res = await axios.get(`${UFC_API_BASE}/athlete/${encodeURIComponent(slug)}/bio.json`, { timeout: 5000 });
+    data = res.data;
+  } catch (e) {
+    if (axios.isAxiosError(e) && e.response?.status === 404) return null;
+    throw e;
+  }
+  if (!data) return null;
+
+  // Parse recent results
+  const recentResults: RecentResult[] = [];
+  if (data.FightHistory && Array.isArray(data.FightHistory)) {
+    for (const fight of data.FightHistory.slice(0, 5)) {
+      recentResults.push({
+        opponent: fight.Opponent?.Name ?? "Unknown",
+        result: fight.Result?.Outcome === "W" ? "W"
+          : fight.Result?.Outcome === "L" ? "L"
+          : fight.Result?.Outcome === "D" ? "D"
+          : "NC",
+        method: fight.Result?.Method ?? "",
+        event: fight.Event?.Name ?? "",
+        date: fight.Event?.Date ?? "",
+      });
+    }
+  }
+
+  return {
+    name: fighterName,
+    imageUrl: data.ProfileMainImage ?? data.Image ?? null,
+    nickname: data.Nickname ?? null,
+    nationality: data.Nationality ?? data.Country ?? null,
+    record: data.Record
+      ? `${data.Record.Wins}-${data.Record.Losses}-${data.Record.Draws}`
+      : null,
+    ranking: data.Rankings?.[0]?.Rank != null
+      ? data.Rankings[0].Rank === 0 ? "C" : `#${data.Rankings[0].Rank}`
+      : null,
+    recentResults,
+  };
+}
+
 /**
  * Build UFC fighter image URL from name.
  * UFC uses a predictable CDN pattern for headshots.
  */
 export function buildUFCImageUrl(fighterName: string): string {
-  const slug = fighterName
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, "")
-    .trim()
-    .replace(/\s+/g, "-");
+  const slug = fighterSlug(fighterName);
   return `https://dmxg5wxfqgde4.cloudfront.net/styles/athlete_bio_full_body/s3/2024-01/athlete_${slug}_full_body.png`;
 }
 
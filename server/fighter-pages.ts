@@ -0,0 +1,162 @@
+/**
+ * FightCred — Fighter Pages
+ *
+ * Everything the fighters router serves about one canonical fighter: the
+ * profile synced from UFC.com (see fighter-sync.ts), every FightCred fight
+ * they were on with its result and how the community picked it, and how the
+ * community has done on them — backing picks from user_fighter_stats, and the
+ * users most accurate on their bouts from the filtered leaderboard.
+ */
+
+import * as db from "./db";
+import { getFlagEmoji, type RecentResult } from "./fighter-data";
+import type { Event, Fight, Fighter, MethodType } from "../shared/types";
+
+export interface FighterProfileView {
+  id: number;
+  name: string;
+  nickname: string | null;
+  imageUrl: string | null;
+  nationality: string | null;
+  flag: string;
+  record: string | null;
+  ranking: string | null;
+  recentResults: RecentResult[];
+  aliases: string[];
+  /** When the UFC.com profile was last refreshed (null if it never was). */
+  profileSyncedAt: Date | null;
+}
+
+export interface FighterFightView {
+  fightId: number;
+  event: Pick<Event, "id" | "name" | "shortName" | "eventDate">;
+  opponent: { id: number | null; name: string };
+  weightClass: string | null;
+  isTitleFight: boolean;
+  isMainEvent: boolean;
+  status: Fight["status"];
+  /** From this fighter's side; null until the fight is completed. */
+  outcome: "win" | "loss" | "draw" | "nc" | null;
+  method: MethodType | null;
+  methodDetail: string | null;
+  round: number | null;
+  fightTime: string | null;
+  odds: number | null;
+  picks: { total: number; backing: number; backingPct: number };
+}
+
+export interface FighterCommunityStats {
+  /** Non-void picks on this fighter's fights, and how many backed them. */
+  picksOnFights: number;
+  picksBacking: number;
+  backingPct: number;
+  /** Resolved picks backing them and how many were right (user_fighter_stats). */
+  backers: number;
+  resolvedBackingPicks: number;
+  correctBackingPicks: number;
+  backingAccuracy: number;
+}
+
+function pct(part: number, whole: number) {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function parseRecentResults(json: string | null): RecentResult[] {
+  if (!json) return [];
+  try {
+    return JSON.parse(json) as RecentResult[];
+  } catch {
+    return [];
+  }
+}
+
+async function requireFighter(fighterId: number): Promise<Fighter> {
+  const fighter = await db.getFighterById(fighterId);
+  if (!fighter) throw new Error("Fighter not found");
+  return fighter;
+}
+
+function fightOutcome(fight: Fight, fighter: Fighter, side: 1 | 2): FighterFightView["outcome"] {
+  if (fight.status !== "completed" || !fight.method) return null;
+  if (fight.method === "draw" || fight.method === "nc") return fight.method;
+  // Fights resolved before fighter ids only have the winner's name
+  const won = fight.winnerId != null
+    ? fight.winnerId === fighter.id
+    : fight.winner === (side === 1 ? fight.fighter1Name : fight.fighter2Name);
+  return won ? "win" : "loss";
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+export async function getFighterProfileView(fighterId: number): Promise<FighterProfileView> {
+  const fighter = await requireFighter(fighterId);
+  return {
+    id: fighter.id,
+    name: fighter.name,
+    nickname: fighter.nickname,
+    imageUrl: fighter.imageUrl,
+    nationality: fighter.nationality,
+    flag: getFlagEmoji(fighter.nationality),
+    record: fighter.record,
+    ranking: fighter.ranking,
+    recentResults: parseRecentResults(fighter.recentResults),
+    aliases: await db.getFighterAliases(fighter.id),
+    profileSyncedAt: fighter.profileSyncedAt,
+  };
+}
+
+/** Every FightCred fight the fighter was on, newest first, with results and the pick split. */
+export async function getFighterFightHistory(fighterId: number): Promise<FighterFightView[]> {
+  const fighter = await requireFighter(fighterId);
+  const rows = await db.getFighterFights(fighter.id);
+  const splits = new Map((await db.getFighterPickSplits(fighter.id, rows.map(({ fight }) => fight.id))).map((s) => [s.fightId, s]));
+
+  return rows.map(({ fight, event }) => {
+    const side = fight.fighter1Id === fighter.id ? 1 : 2;
+    const split = splits.get(fight.id) ?? { picks: 0, picksFor: 0 };
+    return {
+      fightId: fight.id,
+      event: { id: event.id, name: event.name, shortName: event.shortName, eventDate: event.eventDate },
+      opponent: side === 1
+        ? { id: fight.fighter2Id, name: fight.fighter2Name }
+        : { id: fight.fighter1Id, name: fight.fighter1Name },
+      weightClass: fight.weightClass,
+      isTitleFight: fight.isTitleFight,
+      isMainEvent: fight.isMainEvent,
+      status: fight.status,
+      outcome: fightOutcome(fight, fighter, side),
+      method: fight.status === "completed" ? fight.method : null,
+      methodDetail: fight.methodDetail,
+      round: fight.round,
+      fightTime: fight.fightTime,
+      odds: side === 1 ? fight.odds1 : fight.odds2,
+      picks: { total: split.picks, backing: split.picksFor, backingPct: pct(split.picksFor, split.picks) },
+    };
+  });
+}
+
+export async function getFighterCommunityStats(fighterId: number): Promise<FighterCommunityStats> {
+  const fighter = await requireFighter(fighterId);
+  const fightIds = (await db.getFighterFights(fighter.id)).map(({ fight }) => fight.id);
+  const [splits, backing] = await Promise.all([
+    db.getFighterPickSplits(fighter.id, fightIds),
+    db.getFighterBackingTotals(fighter.id),
+  ]);
+  const picksOnFights = splits.reduce((sum, s) => sum + s.picks, 0);
+  const picksBacking = splits.reduce((sum, s) => sum + s.picksFor, 0);
+  return {
+    picksOnFights,
+    picksBacking,
+    backingPct: pct(picksBacking, picksOnFights),
+    backers: backing.backers,
+    resolvedBackingPicks: backing.totalPicks,
+    correctBackingPicks: backing.correctPicks,
+    backingAccuracy: pct(backing.correctPicks, backing.totalPicks),
+  };
+}
+
+/** Users most accurate on this fighter's bouts — picking for or against them. */
+export async function getFighterTopPredictors(fighterId: number, minPicks: number, limit: number) {
+  const fighter = await requireFighter(fighterId);
+  return db.getFilteredLeaderboard({ fighterId: fighter.id, minPicks, sortBy: "accuracy", limit });
+}
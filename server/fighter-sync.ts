@@ -0,0 +1,124 @@
+/**
+ * FightCred — Fighter Profile Sync
+ *
+ * Fills each fighter's image, nickname, nationality, record, ranking and
+ * recent results from UFC.com (fighter-data.ts) and copies them onto the
+ * fighter's upcoming fights.
+ *
+ *   - Triggers: new fights queue their two fighters ("fighters.sync"), and the
+ *     recurring "fighters.syncDue" job works through whoever is due.
+ *   - Staleness: the fighters row is the cache. A profile is refreshed after
+ *     FIGHTER_PROFILE_MAX_AGE_HOURS, or FIGHTER_PROFILE_CARD_MAX_AGE_HOURS for
+ *     fighters on a card in the next week. Failed lookups are retried after
+ *     FIGHTER_PROFILE_RETRY_MINUTES; athletes UFC does not know are left until
+ *     they go stale like any other profile.
+ *   - Rate limiting: requests are sequential, at least
+ *     FIGHTER_SYNC_REQUEST_INTERVAL_MS apart, at most FIGHTER_SYNC_BATCH_SIZE
+ *     fighters per run.
+ *   - Each fighter's writes are fenced by the job's lease (withJobLease), so a
+ *     run that lost its job to another worker records nothing further.
+ *
+ * admin.fighterProfileIssues lists fighters that did not resolve.
+ */
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { enqueueJob, JobLeaseLostError, withJobLease } from "./job-queue";
+import { fighterSlug, lookupFighterProfile } from "./fighter-data";
+import type { Fighter, Job } from "../shared/types";
+
+const HOUR = 60 * 60 * 1000;
+// Fighters on a card starting within this window use the shorter staleness
+const CARD_WINDOW_MS = 7 * 24 * HOUR;
+
+export interface FighterSyncReport {
+  synced: number;
+  notFound: number;
+  failed: number;
+  failures: { fighterId: number; name: string; error: string }[];
+}
+
+// ─── Rate limiting ────────────────────────────────────────────────────────────
+
+let lastRequestAt = 0;
+
+async function throttle() {
+  const wait = lastRequestAt + ENV.fighterSyncRequestIntervalMs - Date.now();
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+  lastRequestAt = Date.now();
+}
+
+// ─── Sync ─────────────────────────────────────────────────────────────────────
+
+async function syncFighter(fighter: Fighter, report: FighterSyncReport, job?: Job) {
+  await throttle();
+  try {
+    const profile = await lookupFighterProfile(fighter.name, fighter.ufcSlug ?? fighterSlug(fighter.name));
+    if (!profile) {
+      await withJobLease(job, (tx) => db.recordFighterProfile(fighter.id, null, tx));
+      report.notFound++;
+      return;
+    }
+    const fields: db.FighterProfileFields = {
+      imageUrl: profile.imageUrl,
+      nickname: profile.nickname,
+      nationality: profile.nationality,
+      record: profile.record,
+      ranking: profile.ranking,
+      recentResults: profile.recentResults.length > 0 ? JSON.stringify(profile.recentResults) : null,
+    };
+    await withJobLease(job, async (tx) => {
+      await db.recordFighterProfile(fighter.id, fields, tx);
+      await db.applyFighterProfileToFights(fighter.id, fields, tx);
+    });
+    report.synced++;
+  } catch (err) {
+    if (err instanceof JobLeaseLostError) throw err;
+    const message = err instanceof Error ? err.message : String(err);
+    await withJobLease(job, (tx) => db.recordFighterProfileFailure(fighter.id, message, tx));
+    report.failed++;
+    report.failures.push({ fighterId: fighter.id, name: fighter.name, error: message });
+    console.warn(`[FighterSync] ${fighter.name} (#${fighter.id}) failed: ${message}`);
+  }
+}
+
+/** Sync these fighters now, fresh or not. */
+export async function syncFighterProfiles(fighterIds: number[], job?: Job): Promise<FighterSyncReport> {
+  const report: FighterSyncReport = { synced: 0, notFound: 0, failed: 0, failures: [] };
+  for (const fighter of await db.getFightersByIds(fighterIds)) {
+    await syncFighter(fighter, report, job);
+  }
+  return report;
+}
+
+/** Sync the next batch of fighters whose profile is missing, stale or due a retry. */
+export async function syncDueFighterProfiles(now = new Date(), job?: Job): Promise<FighterSyncReport & { remaining: boolean }> {
+  const due = await db.getFightersDueForProfileSync({
+    staleBefore: new Date(now.getTime() - ENV.fighterProfileMaxAgeHours * HOUR),
+    cardStaleBefore: new Date(now.getTime() - ENV.fighterProfileCardMaxAgeHours * HOUR),
+    retryBefore: new Date(now.getTime() - ENV.fighterProfileRetryMinutes * 60 * 1000),
+    cardFighterIds: await db.getUpcomingCardFighterIds(new Date(now.getTime() + CARD_WINDOW_MS)),
+    limit: ENV.fighterSyncBatchSize,
+  });
+
+  const report: FighterSyncReport = { synced: 0, notFound: 0, failed: 0, failures: [] };
+  for (const fighter of due) {
+    await syncFighter(fighter, report, job);
+  }
+  if (due.length > 0) {
+    console.log(`[FighterSync] ${report.synced} synced, ${report.notFound} not found, ${report.failed} failed`);
+  }
+  // A full batch means more fighters are probably waiting
+  return { ...report, remaining: due.length === ENV.fighterSyncBatchSize };
+}
+
+/** Queue a profile sync for a newly created fight's fighters. Never fails the caller. */
+export async function queueFighterSyncForFight(fightId: number) {
+  try {
+    const fight = await db.getFightById(fightId);
+    const fighterIds = [fight?.fighter1Id, fight?.fighter2Id].filter((id): id is number => id != null);
+    if (fighterIds.length > 0) await enqueueJob("fighters.sync", { fighterIds }, { dedupeKey: `fighters.sync:fight:${fightId}` });
+  } catch (err) {
+    console.warn(`[FighterSync] Failed to queue sync for fight ${fightId}:`, err);
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * FightCred — Durable Job Queue
+ *
+ * Background work (result polling, auto-locking, score recalculation,
+ * notifications) runs as rows in the jobs table instead of in-process timers.
+ *
+ *   - Single leader: every instance runs the worker loop, but only the holder
+ *     of the "jobs.leader" lease schedules and executes jobs. If the leader
+ *     dies its lease expires and another instance takes over.
+ *   - Leases: a claimed job is locked to its worker until lockedUntil. While
+ *     the handler runs a heartbeat renews both the job's lease and the
+ *     leader lease; if a renewal fails the run's outcome is discarded rather
+ *     than written over whoever holds the job now. A job whose lease runs out
+ *     (crash mid-run) is picked up again as a new attempt, or failed once it
+ *     has used up maxAttempts.
+ *   - Delivery is at least once: a job can run again after its worker lost
+ *     the lease or died before completing it. Handlers either write in
+ *     withJobLease(), which commits nothing once the lease is gone, or only
+ *     make changes that are harmless to repeat.
+ *   - Retries: failures are retried with exponential backoff up to maxAttempts.
+ *   - Recurring jobs keep exactly one pending instance under the dedupeKey
+ *     "recurring:<name>" and schedule their next run when one finishes —
+ *     either a fixed interval or an adaptive one whose reason is stored as
+ *     the next job's payload.
+ *   - History: every attempt is recorded in job_runs.
+ */
+
+import { randomUUID } from "crypto";
+import os from "os";
+import * as db from "./db";
+import type { Job } from "../shared/types";
+
+const WORKER_ID = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+const LEADER_LEASE = "jobs.leader";
+const LEADER_LEASE_MS = 30 * 1000;
+const TICK_INTERVAL_MS = 5 * 1000;
+const JOB_LEASE_MS = 5 * 60 * 1000;
+// Well inside LEADER_LEASE_MS so one slow renewal does not cost the lease
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const MAX_JOBS_PER_TICK = 10;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+export type JobHandler = (payload: unknown, job: Job) => Promise<unknown>;
+
+/** When a recurring job should run next, and why. */
+export interface NextRun {
+  delayMs: number;
+  reason: string;
+}
+
+export interface JobDefinition {
+  handler: JobHandler;
+  maxAttempts?: number;
+  /**
+   * Run on a fixed interval (ms) instead of only when enqueued, or decide the
+   * delay after each run from the handler's output (undefined if it failed).
+   */
+  every?: number | ((output: unknown) => Promise<NextRun>);
+}
+
+const definitions = new Map<string, JobDefinition>();
+
+export function defineJob(name: string, definition: JobDefinition) {
+  definitions.set(name, definition);
+}
+
+function recurringKey(name: string) {
+  return `recurring:${name}`;
+}
+
+export async function enqueueJob(
+  name: string,
+  payload?: unknown,
+  options: { runAt?: Date; dedupeKey?: string; maxAttempts?: number } = {},
+): Promise<number | null> {
+  return db.enqueueJob({
+    name,
+    payload: payload === undefined ? null : JSON.stringify(payload),
+    runAt: options.runAt ?? new Date(),
+    dedupeKey: options.dedupeKey ?? null,
+    maxAttempts: options.maxAttempts ?? definitions.get(name)?.maxAttempts ?? 5,
+  });
+}
+
+/** Run a recurring job on the next tick rather than at its scheduled time. */
+export async function runRecurringJobNow(name: string, reason = "Triggered manually"): Promise<number | null> {
+  const definition = definitions.get(name);
+  if (!definition?.every) throw new Error(`"${name}" is not a recurring job`);
+  const payload: NextRun & { scheduledAt: Date } = { delayMs: 0, reason, scheduledAt: new Date() };
+  return (await db.runPendingJobNow(recurringKey(name), JSON.stringify(payload)))
+    ?? enqueueJob(name, payload, { dedupeKey: recurringKey(name) });
+}
+
+async function scheduleNextRun(name: string, definition: JobDefinition, output: unknown) {
+  if (!definition.every) return;
+  if (typeof definition.every === "number") {
+    await enqueueJob(name, undefined, { dedupeKey: recurringKey(name), runAt: new Date(Date.now() + definition.every) });
+    return;
+  }
+  const next = await definition.every(output);
+  await enqueueJob(name, { ...next, scheduledAt: new Date() }, {
+    dedupeKey: recurringKey(name),
+    runAt: new Date(Date.now() + next.delayMs),
+  });
+}
+
+function retryDelayMs(attempt: number) {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS);
+}
+
+// ─── Lease Fencing ────────────────────────────────────────────────────────────
+
+/** The job's lease was lost mid-run; another worker may be running it now. */
+export class JobLeaseLostError extends Error {
+  constructor(job: Job) {
+    super(`Lease on ${job.name} #${job.id} lost`);
+    this.name = "JobLeaseLostError";
+  }
+}
+
+/**
+ * Run a handler's writes in one transaction that first checks this worker
+ * still holds the job's lease and keeps the job row locked until it commits.
+ * Throws JobLeaseLostError without writing anything if the lease is gone.
+ * Without a job (the same code called by an admin) it is a plain transaction.
+ */
+export async function withJobLease<T>(job: Job | undefined, work: (tx: db.DbTransaction) => Promise<T>): Promise<T> {
+  const drizzleDb = await db.getDb();
+  if (!drizzleDb) throw new Error("Database not available");
+  return drizzleDb.transaction(async (tx) => {
+    if (job && !(await db.holdsJobLease(job.id, WORKER_ID, tx))) throw new JobLeaseLostError(job);
+    return work(tx);
+  });
+}
+
+/** Check the lease right before a side effect outside the database, such as a notification. */
+export async function assertJobLease(job: Job | undefined) {
+  if (job && !(await db.holdsJobLease(job.id, WORKER_ID))) throw new JobLeaseLostError(job);
+}
+
+// ─── Execution ────────────────────────────────────────────────────────────────
+
+interface Heartbeat {
+  /** Why a renewal failed; null while both leases are held. */
+  lost: string | null;
+  stop(): Promise<void>;
+}
+
+/** Renew the leader lease and the job's lease every HEARTBEAT_INTERVAL_MS until stopped. */
+function startHeartbeat(job: Job): Heartbeat {
+  let beat: Promise<void> | null = null;
+  const heartbeat: Heartbeat = {
+    lost: null,
+    async stop() {
+      clearInterval(interval);
+      await beat;
+    },
+  };
+
+  const renew = async () => {
+    try {
+      if (!(await db.acquireLease(LEADER_LEASE, WORKER_ID, LEADER_LEASE_MS))) heartbeat.lost = "Leadership lost";
+      else if (!(await db.renewJobLease(job.id, WORKER_ID, JOB_LEASE_MS))) heartbeat.lost = "Job lease lost";
+    } catch (err) {
+      heartbeat.lost = `Lease renewal failed: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  };
+  const interval = setInterval(() => {
+    if (beat || heartbeat.lost) return;
+    beat = renew().finally(() => {
+      beat = null;
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return heartbeat;
+}
+
+/** Another worker may own the job by now, so only this attempt's run is closed. */
+async function abandonRun(job: Job, runId: number, started: number, reason: string) {
+  console.warn(`[Jobs] ${job.name} #${job.id} attempt ${job.attempts} discarded: ${reason}`);
+  await db.finishJobRun(runId, { status: "failed", error: reason, durationMs: Date.now() - started });
+}
+
+async function runJob(job: Job) {
+  const definition = definitions.get(job.name);
+  const runId = await db.insertJobRun({ jobId: job.id, name: job.name, attempt: job.attempts, workerId: WORKER_ID });
+  const started = Date.now();
+  const heartbeat = startHeartbeat(job);
+
+  try {
+    if (!definition) throw new Error(`No handler registered for job "${job.name}"`);
+    const output = await definition.handler(job.payload ? JSON.parse(job.payload) : undefined, job);
+    await heartbeat.stop();
+    if (heartbeat.lost) return await abandonRun(job, runId, started, heartbeat.lost);
+    const result = output === undefined ? null : JSON.stringify(output);
+
+    await db.finishJobRun(runId, { status: "succeeded", result, durationMs: Date.now() - started });
+    await db.completeJob(job.id, WORKER_ID, result);
+    await scheduleNextRun(job.name, definition, output);
+  } catch (err) {
+    await heartbeat.stop();
+    if (heartbeat.lost) return await abandonRun(job, runId, started, heartbeat.lost);
+    if (err instanceof JobLeaseLostError) return await abandonRun(job, runId, started, "Job lease lost");
+    const message = err instanceof Error ? err.message : String(err);
+    const retry = job.attempts < job.maxAttempts;
+    console.error(`[Jobs] ${job.name} #${job.id} attempt ${job.attempts}/${job.maxAttempts} failed: ${message}`);
+
+    await db.finishJobRun(runId, { status: "failed", error: message, durationMs: Date.now() - started });
+    await db.failJob(job.id, WORKER_ID, message, retry ? new Date(Date.now() + retryDelayMs(job.attempts)) : null);
+    // A recurring job that exhausted its retries still gets its next regular run
+    if (!retry && definition) await scheduleNextRun(job.name, definition, undefined);
+  }
+}
+
+async function tick() {
+  if (!(await db.acquireLease(LEADER_LEASE, WORKER_ID, LEADER_LEASE_MS))) return;
+
+  // Make sure every recurring job has a pending instance (dedupeKey makes this a no-op when it does)
+  for (const [name, definition] of definitions) {
+    if (definition.every) await enqueueJob(name, undefined, { dedupeKey: recurringKey(name) });
+  }
+
+  for (let i = 0; i < MAX_JOBS_PER_TICK; i++) {
+    const job = await db.claimNextJob(WORKER_ID, JOB_LEASE_MS);
+    if (!job) break;
+    await runJob(job);
+    // Stop if leadership was lost while the job ran
+    if (!(await db.acquireLease(LEADER_LEASE, WORKER_ID, LEADER_LEASE_MS))) break;
+  }
+}
+
+// ─── Worker loop ──────────────────────────────────────────────────────────────
+
+let workerInterval: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+export function startJobWorker() {
+  if (workerInterval) return;
+
+  console.log(`[Jobs] Worker ${WORKER_ID} starting — ${definitions.size} job types registered`);
+
+  const run = async () => {
+    // A long job can outlast the interval; never run two ticks at once
+    if (ticking) return;
+    ticking = true;
+    try {
+      await tick();
+    } catch (err) {
+      console.error("[Jobs] Tick failed:", err);
+    } finally {
+      ticking = false;
+    }
+  };
+  void run();
+  workerInterval = setInterval(run, TICK_INTERVAL_MS);
+}
+
+export async function stopJobWorker() {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+  await db.releaseLease(LEADER_LEASE, WORKER_ID);
+}
@@ -0,0 +1,107 @@
+/**
+ * FightCred — Background Job Definitions
+ *
+ * Every recurring or deferred task the server runs, registered with the
+ * durable job queue (job-queue.ts). Handlers return a small JSON summary that
+ * is stored on the job and its run history for admin.jobs / admin.jobRuns.
+ *
+ * A job can run more than once (see job-queue.ts), so every handler is safe
+ * to repeat: polling, locking and rescoring only act on state that is not
+ * already resolved, locked or current, and the syncs and notifications check
+ * the job's lease before they write or send.
+ */
+
+import { assertJobLease, defineJob, startJobWorker } from "./job-queue";
+import { runLockSweep } from "./fight-locks";
+import { decidePollCadence, pollFightResults, type PollCadence } from "./result-poller";
+import { syncDueFighterProfiles, syncFighterProfiles } from "./fighter-sync";
+import { syncFightOdds } from "./odds/sync";
+import { getOddsApiQuota } from "./odds/api";
+import { rescoreAllUsers } from "./scoring-rules";
+import { notifyOwner, type NotificationPayload } from "./_core/notification";
+import { ENV } from "./_core/env";
+
+const MINUTE = 60 * 1000;
+
+export function registerJobs() {
+  // Result polling — resolves fights and scores their predictions.
+  // Runs fast on fight night and slow otherwise; the run result records the decision.
+  defineJob("results.poll", {
+    every: async (output) => (output as { nextPoll?: PollCadence } | undefined)?.nextPoll ?? decidePollCadence(),
+    maxAttempts: 3,
+    handler: async (payload) => {
+      const { resolved, held, errors, reports } = await pollFightResults();
+      return {
+        resolved,
+        held,
+        errors,
+        fightIds: reports.map((r) => r.fightId),
+        // Why this run was scheduled when it was (null for the first run after startup)
+        scheduledBecause: (payload as PollCadence | undefined)?.reason ?? null,
+        nextPoll: await decidePollCadence(),
+      };
+    },
+  });
+
+  // Close predictions on fights and cards that are about to start
+  defineJob("fights.autoLock", {
+    every: 30 * 1000,
+    maxAttempts: 1,
+    handler: () => runLockSweep(),
+  });
+
+  // Nightly rescore so recency-weighted scores decay for users who stop picking
+  defineJob("scores.recalc", {
+    every: 24 * 60 * MINUTE,
+    maxAttempts: 3,
+    handler: async () => ({ usersRescored: (await rescoreAllUsers()).length }),
+  });
+
+  // Fighter profiles from UFC.com — a batch of missing or stale ones each run,
+  // back to back while there is a backlog
+  defineJob("fighters.syncDue", {
+    every: async (output) => (output as { remaining?: boolean } | undefined)?.remaining
+      ? { delayMs: MINUTE, reason: "More fighters due" }
+      : { delayMs: 60 * MINUTE, reason: "Hourly staleness check" },
+    maxAttempts: 1,
+    handler: (_payload, job) => syncDueFighterProfiles(new Date(), job),
+  });
+
+  // Profiles for specific fighters, e.g. the two on a newly created fight
+  defineJob("fighters.sync", {
+    maxAttempts: 3,
+    handler: (payload, job) => syncFighterProfiles((payload as { fighterIds: number[] }).fighterIds, job),
+  });
+
+  // Consensus odds from The Odds API onto upcoming fights, so picks capture real prices.
+  // Runs less often as the API quota runs down.
+  defineJob("odds.sync", {
+    every: async () => {
+      const { level, remaining } = getOddsApiQuota();
+      const factor = level === "reserve" ? 4 : level === "low" ? 2 : 1;
+      return {
+        delayMs: ENV.oddsSyncIntervalMinutes * factor * MINUTE,
+        reason: level === "normal" ? "Regular odds sync" : `Odds API quota ${level} (${remaining} remaining)`,
+      };
+    },
+    maxAttempts: 2,
+    handler: (_payload, job) => syncFightOdds(new Date(), job),
+  });
+
+  // Owner notifications, retried until the notification service accepts them
+  defineJob("notify.owner", {
+    maxAttempts: 5,
+    handler: async (payload, job) => {
+      // Still only narrows the window: a worker dying after the send means a second notification
+      await assertJobLease(job);
+      const delivered = await notifyOwner(payload as NotificationPayload);
+      if (!delivered) throw new Error("Notification service did not accept the notification");
+      return { delivered };
+    },
+  });
+}
+
+export function startBackgroundJobs() {
+  registerJobs();
+  startJobWorker();
+}
@@ -0,0 +1,101 @@
+/**
+ * FightCred — Materialized Leaderboard Ranks
+ *
+ * Leaderboards read precomputed positions from leaderboard_ranks instead of
+ * sorting userProfiles or aggregating credibility_log on every request.
+ * Scopes:
+ *   - "global" / "global_recent": the all-time and recency-weighted normalized scores
+ *   - "event": points earned on one card (scopeId = event id)
+ *   - "season": points earned on fights inside an open season (scopeId = season id);
+ *     finalized seasons are served from their season_standings snapshot
+ *
+ * When a fight is resolved or corrected only the rows of users with a pick on
+ * it are rewritten, then each touched scope is re-ranked in SQL.
+ * rebuildLeaderboardRanks() recomputes every scope from scratch for admins
+ * and on first boot.
+ */
+
+import * as db from "./db";
+import type { Season } from "../shared/types";
+
+export interface RankRebuildReport {
+  usersRanked: number;
+  eventsRanked: number;
+  seasonsRanked: number;
+}
+
+// ─── Scope refreshes ──────────────────────────────────────────────────────────
+
+/** Refresh both global scopes for a set of users (everyone when omitted). */
+export async function refreshGlobalRanks(userIds?: number[]) {
+  const rows = await db.getGlobalRankSources(userIds);
+  await db.writeScopeRanks("global", 0, rows.map((r) => ({
+    userId: r.userId,
+    score: r.credibilityScore,
+    totalPicks: r.totalPicks,
+    correctPicks: r.correctPicks,
+  })), userIds);
+  await db.writeScopeRanks("global_recent", 0, rows.map((r) => ({
+    userId: r.userId,
+    score: r.recentCredibilityScore,
+    totalPicks: r.totalPicks,
+    correctPicks: r.correctPicks,
+  })), userIds);
+  return rows.length;
+}
+
+async function refreshEventRanks(eventId: number, userIds?: number[]) {
+  await db.writeScopeRanks("event", eventId, await db.getEventRankSources(eventId, userIds), userIds);
+}
+
+export async function refreshSeasonRanks(season: Season, userIds?: number[]) {
+  await db.writeScopeRanks("season", season.id, await db.getSeasonRankSources(season, userIds), userIds);
+}
+
+// ─── Incremental update ───────────────────────────────────────────────────────
+
+/**
+ * Bring ranks up to date after a fight's scoring changed: rewrites the rows of
+ * users with a pick on it in the global scopes, the fight's event and every
+ * open season whose window holds the fight (a correction can touch an older window).
+ */
+export async function updateRanksForFight(fightId: number) {
+  const fight = await db.getFightById(fightId);
+  if (!fight) return;
+  const userIds = [...new Set((await db.getPredictionsForFight(fightId)).map((p) => p.userId))];
+  if (userIds.length === 0) return;
+
+  await refreshGlobalRanks(userIds);
+  await refreshEventRanks(fight.eventId, userIds);
+  for (const season of await db.getOpenSeasonsForFight(fightId)) {
+    await refreshSeasonRanks(season, userIds);
+  }
+}
+
+// ─── Full rebuild ─────────────────────────────────────────────────────────────
+
+/** Recompute every scope from the source tables, dropping scopes that no longer apply. */
+export async function rebuildLeaderboardRanks(): Promise<RankRebuildReport> {
+  const usersRanked = await refreshGlobalRanks();
+
+  const eventIds = await db.getScoredEventIds();
+  for (const eventId of eventIds) {
+    await refreshEventRanks(eventId);
+  }
+  await db.pruneRankScopes("event", eventIds);
+
+  const openSeasons = (await db.getSeasons()).filter((s) => !s.finalizedAt);
+  for (const season of openSeasons) {
+    await refreshSeasonRanks(season);
+  }
+  await db.pruneRankScopes("season", openSeasons.map((s) => s.id));
+
+  return { usersRanked, eventsRanked: eventIds.length, seasonsRanked: openSeasons.length };
+}
+
+/** Build the rank table on first boot (or after it was emptied). */
+export async function ensureLeaderboardRanks() {
+  if (await db.hasRankRows("global")) return;
+  const report = await rebuildLeaderboardRanks();
+  console.log(`[Ranks] Built leaderboard ranks: ${report.usersRanked} users, ${report.eventsRanked} events, ${report.seasonsRanked} seasons`);
+}
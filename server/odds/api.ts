@@ -0,0 +1,166 @@
+/**
+ * The Odds API client — MMA head-to-head prices from US bookmakers.
+ *
+ *   https://api.the-odds-api.com/v4/sports/mma_mixed_martial_arts/odds
+ *
+ * Every call spends quota on ODDS_API_KEY, so responses are shared:
+ *   - Cache: the last response is served for ODDS_CACHE_TTL_SECONDS.
+ *   - Coalescing: callers arriving while a request is in flight wait for it
+ *     instead of starting their own.
+ *   - Quota: the x-requests-remaining / -used / -last headers of each
+ *     response are kept for admin.oddsQuota. Below ODDS_QUOTA_LOW remaining
+ *     requests the cache is kept for ODDS_LOW_QUOTA_TTL_MINUTES instead; below
+ *     ODDS_QUOTA_RESERVE only the odds sync may call the API and public
+ *     callers get the cached response, however old.
+ */
+
+import axios from "axios";
+import { ENV } from "../_core/env";
+
+const ODDS_API_BASE = "https://api.the-odds-api.com/v4";
+
+// ─── Odds API Types ───────────────────────────────────────────────────────────
+
+export interface OddsApiOutcome {
+  name: string;
+  price: number;
+}
+
+export interface OddsApiBookmaker {
+  key: string;
+  title?: string;
+  last_update?: string;
+  markets: Array<{ key: string; last_update?: string; outcomes: OddsApiOutcome[] }>;
+}
+
+export interface OddsApiEvent {
+  id: string;
+  commence_time: string;
+  home_team: string;
+  away_team: string;
+  bookmakers: OddsApiBookmaker[];
+}
+
+// ─── Quota & Cache State ──────────────────────────────────────────────────────
+
+export type QuotaLevel = "normal" | "low" | "reserve";
+
+export interface OddsApiQuota {
+  /** From the last response's headers; null until the first request. */
+  remaining: number | null;
+  used: number | null;
+  lastCost: number | null;
+  updatedAt: Date | null;
+  level: QuotaLevel;
+  /** Counters since this server started. */
+  requests: number;
+  failedRequests: number;
+  cacheHits: number;
+  coalesced: number;
+  /** Public calls answered from a stale cache because the quota reserve was reached. */
+  throttled: number;
+  cache: { fetchedAt: Date; events: number; ttlSeconds: number } | null;
+}
+
+const quota = { remaining: null as number | null, used: null as number | null, lastCost: null as number | null, updatedAt: null as Date | null };
+const counters = { requests: 0, failedRequests: 0, cacheHits: 0, coalesced: 0, throttled: 0 };
+let cache: { events: OddsApiEvent[]; fetchedAt: Date } | null = null;
+let inFlight: Promise<OddsApiEvent[]> | null = null;
+
+function quotaLevel(): QuotaLevel {
+  if (quota.remaining == null) return "normal";
+  if (quota.remaining <= ENV.oddsQuotaReserve) return "reserve";
+  if (quota.remaining <= ENV.oddsQuotaLow) return "low";
+  return "normal";
+}
+
+function cacheTtlMs(): number {
+  return quotaLevel() === "normal" ? ENV.oddsCacheTtlSeconds * 1000 : ENV.oddsLowQuotaTtlMinutes * 60 * 1000;
+}
+
+function headerNumber(value: unknown): number | null {
+  const n = Number(value);
+  return value != null && value !== "" && Number.isFinite(n) ? n : null;
+}
+
+function recordQuota(headers: Record<string, unknown>) {
+  const before = quotaLevel();
+  quota.remaining = headerNumber(headers["x-requests-remaining"]) ?? quota.remaining;
+  quota.used = headerNumber(headers["x-requests-used"]) ?? quota.used;
+  quota.lastCost = headerNumber(headers["x-requests-last"]);
+  quota.updatedAt = new Date();
+  const after = quotaLevel();
+  if (after !== before) console.warn(`[OddsAPI] Quota ${after}: ${quota.remaining} requests remaining`);
+}
+
+// ─── Fetch ────────────────────────────────────────────────────────────────────
+
+async function fetchFromApi(): Promise<OddsApiEvent[]> {
+  counters.requests++;
+  try {
+    const res = await axios.get(`${ODDS_API_BASE}/sports/mma_mixed_martial_arts/odds`, {
+      params: {
+        apiKey: ENV.oddsApiKey,
+        regions: "us",
+        oddsFormat: "american",
+        markets: "h2h",
+      },
+      timeout: 8000,
+    });
+    recordQuota(res.headers);
+    cache = { events: res.data as OddsApiEvent[], fetchedAt: new Date() };
+    return cache.events;
+  } catch (e) {
+    counters.failedRequests++;
+    // Error responses carry the quota headers too (e.g. 429 once it is used up)
+    if (axios.isAxiosError(e) && e.response) recordQuota(e.response.headers);
+    throw e;
+  }
+}
+
+/**
+ * Current MMA odds — cached, shared with concurrent callers, and throttled by
+ * the remaining quota. The odds sync passes `sync` so it can still call the
+ * API from the quota reserve. Throws when a needed request fails; empty when
+ * no key is configured.
+ */
+export async function requestMMAOdds(caller: "sync" | "public" = "sync"): Promise<OddsApiEvent[]> {
+  if (!ENV.oddsApiKey) return [];
+
+  if (cache && Date.now() - cache.fetchedAt.getTime() < cacheTtlMs()) {
+    counters.cacheHits++;
+    return cache.events;
+  }
+  if (inFlight) {
+    counters.coalesced++;
+    return inFlight;
+  }
+  if (caller === "public" && quotaLevel() === "reserve") {
+    counters.throttled++;
+    return cache?.events ?? [];
+  }
+
+  inFlight = fetchFromApi().finally(() => {
+    inFlight = null;
+  });
+  return inFlight;
+}
+
+/** Current MMA odds for public callers, or an empty list if the request fails. */
+export async function fetchMMAOdds(): Promise<OddsApiEvent[]> {
+  try {
+    return await requestMMAOdds("public");
+  } catch (e) {
+    console.warn("[OddsAPI] Failed to fetch:", e);
+    return [];
+  }
+}
+
+export function getOddsApiQuota(): OddsApiQuota {
+  return {
+    ...quota,
+    level: quotaLevel(),
+    ...counters,
+    cache: cache ? { fetchedAt: cache.fetchedAt, events: cache.events.length, ttlSeconds: Math.round(cacheTtlMs() / 1000) } : null,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * FightCred — Odds History
+ *
+ * Line movement for a fight from odds_snapshots (written by the odds sync),
+ * its opening and closing lines, and an audit of the odds each prediction was
+ * scored at against the snapshot it was priced from.
+ */
+
+import * as db from "../db";
+import { CONSENSUS } from "./sync";
+import type { Fight, OddsSnapshot } from "../../shared/types";
+
+export interface OddsLine {
+  odds1: number;
+  odds2: number;
+  at: Date | null;
+}
+
+export interface FightOddsHistory {
+  fightId: number;
+  opening: OddsLine | null;
+  /** Set once predictions close. */
+  closing: OddsLine | null;
+  current: OddsLine | null;
+  /** Consensus snapshots, oldest first, plus every bookmaker's when asked for. */
+  snapshots: Pick<OddsSnapshot, "bookmaker" | "market" | "odds1" | "odds2" | "bookmakerUpdatedAt" | "capturedAt">[];
+}
+
+function line(odds1: number | null, odds2: number | null, at: Date | null): OddsLine | null {
+  return odds1 != null && odds2 != null ? { odds1, odds2, at } : null;
+}
+
+export async function getFightOddsHistory(fightId: number, includeBookmakers = false): Promise<FightOddsHistory> {
+  const fight = await db.getFightById(fightId);
+  if (!fight) throw new Error("Fight not found");
+  const snapshots = await db.getOddsSnapshots(fight.id, includeBookmakers ? undefined : CONSENSUS);
+  return {
+    fightId: fight.id,
+    opening: line(fight.openingOdds1, fight.openingOdds2, fight.openingOddsAt),
+    closing: line(fight.closingOdds1, fight.closingOdds2, fight.closingOddsAt),
+    current: line(fight.odds1, fight.odds2, fight.oddsUpdatedAt),
+    snapshots: snapshots.map(({ bookmaker, market, odds1, odds2, bookmakerUpdatedAt, capturedAt }) => ({
+      bookmaker, market, odds1, odds2, bookmakerUpdatedAt, capturedAt,
+    })),
+  };
+}
+
+/**
+ * The consensus snapshot a fight's current odds came from, recorded on a
+ * prediction as proof of its oddsAtPrediction. Null when the odds were set
+ * some other way (e.g. entered with the fight).
+ */
+export async function currentOddsSnapshotId(fight: Fight): Promise<number | null> {
+  const snapshot = await db.getLatestOddsSnapshot(fight.id, CONSENSUS);
+  return snapshot && snapshot.odds1 === fight.odds1 && snapshot.odds2 === fight.odds2 ? snapshot.id : null;
+}
+
+export interface PredictionOddsAudit {
+  predictionId: number;
+  userId: number;
+  pickedWinner: string;
+  oddsAtPrediction: number | null;
+  snapshot: { id: number; capturedAt: Date; odds: number } | null;
+  /** "unverified" when the prediction has no snapshot to check against. */
+  verdict: "match" | "mismatch" | "unverified";
+}
+
+/** Check each prediction's oddsAtPrediction against the snapshot it was priced from. */
+export async function auditPredictionOdds(fightId: number): Promise<PredictionOddsAudit[]> {
+  const fight = await db.getFightById(fightId);
+  if (!fight) throw new Error("Fight not found");
+  const rows = await db.getPredictionsWithOddsSnapshots(fight.id);
+  return rows.map(({ prediction, snapshot }) => {
+    const pickedFighter1 = prediction.pickedWinnerId != null && fight.fighter1Id != null
+      ? prediction.pickedWinnerId === fight.fighter1Id
+      : prediction.pickedWinner === fight.fighter1Name;
+    const snapshotOdds = snapshot ? (pickedFighter1 ? snapshot.odds1 : snapshot.odds2) : null;
+    return {
+      predictionId: prediction.id,
+      userId: prediction.userId,
+      pickedWinner: prediction.pickedWinner,
+      oddsAtPrediction: prediction.oddsAtPrediction,
+      snapshot: snapshot && snapshotOdds != null ? { id: snapshot.id, capturedAt: snapshot.capturedAt, odds: snapshotOdds } : null,
+      verdict: snapshotOdds == null ? "unverified" : snapshotOdds === prediction.oddsAtPrediction ? "match" : "mismatch",
+    };
+  });
+}
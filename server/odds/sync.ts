@@ -0,0 +1,204 @@
+/**
+ * FightCred — Odds Sync
+ *
+ * Runs as the "odds.sync" background job (see jobs.ts) every
+ * ODDS_SYNC_INTERVAL_MINUTES. Each run fetches The Odds API's MMA feed once and
+ * writes consensus prices onto every upcoming fight that is still open for
+ * picks and starts within ODDS_SYNC_HORIZON_DAYS, so predictions capture real
+ * oddsAtPrediction values.
+ *
+ *   - Matching: a fight linked to an Odds API event (fights.oddsApiEventId)
+ *     uses that event. Otherwise it is matched by fighter names near its start
+ *     time, and the match is saved on the fight for later runs.
+ *   - Consensus: each bookmaker's price made vig-free, the fair probabilities
+ *     averaged across bookmakers and converted back to American prices
+ *     (getConsensusOdds) — so fights.odds1/odds2 carry no bookmaker margin.
+ *   - History: every bookmaker's line and the consensus are kept in
+ *     odds_snapshots on each run (see odds/history.ts).
+ *   - Unmatched fights are listed in the run's report (admin.oddsSyncReport);
+ *     an admin can link them by hand with admin.linkFightOdds.
+ *   - Each fight's writes are fenced by the job's lease (withJobLease), so a
+ *     run that lost its job to another worker adds no second set of snapshots.
+ */
+
+import * as db from "../db";
+import { ENV } from "../_core/env";
+import { withJobLease } from "../job-queue";
+import { boutMatchScore, nameMatchScore } from "../results/matching";
+import { getOddsApiQuota, requestMMAOdds, type OddsApiEvent } from "./api";
+import { getConsensusOdds, type Event, type Fight, type Job } from "../../shared/types";
+
+// Both names must match at least by first initial and surname
+const MATCH_THRESHOLD = 0.85;
+// Bookmaker key of the snapshot rows holding the consensus written to the fight
+export const CONSENSUS = "consensus";
+// How far an Odds API commence_time may be from our start time
+const START_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface UnmatchedOddsFight {
+  fightId: number;
+  eventId: number;
+  eventName: string;
+  bout: string;
+  startsAt: Date;
+  reason: string;
+}
+
+export interface OddsSyncReport {
+  /** Set when the run did nothing, e.g. no API key. */
+  skipped?: string;
+  apiEvents: number;
+  fights: number;
+  updated: number;
+  /** Matched, but no bookmaker has priced the bout yet. */
+  withoutPrices: number;
+  unmatched: UnmatchedOddsFight[];
+  /** Odds API requests left after this run (null until the API has been called). */
+  quotaRemaining: number | null;
+}
+
+type SyncFight = { fight: Fight; event: Event };
+
+function fightStart({ fight, event }: SyncFight): Date {
+  return fight.scheduledStartTime ?? event.eventDate;
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+type Match = { apiEvent: OddsApiEvent } | { reason: string };
+
+function findApiEvent(entry: SyncFight, apiEvents: OddsApiEvent[], claimed: Set<string>): Match {
+  const start = fightStart(entry).getTime();
+  const scored = apiEvents
+    .filter((e) => !claimed.has(e.id) && Math.abs(new Date(e.commence_time).getTime() - start) <= START_WINDOW_MS)
+    .map((apiEvent) => ({ apiEvent, score: boutMatchScore([apiEvent.home_team, apiEvent.away_team], entry.fight) }))
+    .filter((c) => c.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) return { reason: "No Odds API event for this bout near its start time" };
+  if (scored.length > 1 && scored[1].score === scored[0].score) {
+    return { reason: `${scored.filter((c) => c.score === scored[0].score).length} Odds API events match equally` };
+  }
+  return { apiEvent: scored[0].apiEvent };
+}
+
+/** Which side of our fight an Odds API outcome name is, or null if it fits neither (or both). */
+function outcomeSide(name: string, fight: Fight): 1 | 2 | null {
+  const score1 = nameMatchScore(name, fight.fighter1Name);
+  const score2 = nameMatchScore(name, fight.fighter2Name);
+  if (score1 === score2) return null;
+  return score1 > score2 ? 1 : 2;
+}
+
+// ─── Bookmaker Lines ─────────────────────────────────────────────────────────
+
+interface BookmakerLine {
+  bookmaker: string;
+  odds1: number;
+  odds2: number;
+  updatedAt: Date | null;
+}
+
+/** Each bookmaker's head-to-head prices, oriented to our fighter1/fighter2. */
+function bookmakerLines(apiEvent: OddsApiEvent, fight: Fight): BookmakerLine[] {
+  const lines: BookmakerLine[] = [];
+  for (const bookmaker of apiEvent.bookmakers) {
+    const market = bookmaker.markets.find((m) => m.key === "h2h");
+    if (!market || market.outcomes.length !== 2) continue;
+    const sides = market.outcomes.map((o) => outcomeSide(o.name, fight));
+    // Skip books whose outcome names we cannot place on distinct sides
+    if (sides[0] == null || sides[1] == null || sides[0] === sides[1]) continue;
+    const [first, second] = market.outcomes;
+    const lastUpdate = market.last_update ?? bookmaker.last_update;
+    lines.push({
+      bookmaker: bookmaker.key,
+      odds1: sides[0] === 1 ? first.price : second.price,
+      odds2: sides[0] === 1 ? second.price : first.price,
+      updatedAt: lastUpdate ? new Date(lastUpdate) : null,
+    });
+  }
+  return lines;
+}
+
+// ─── Sync ─────────────────────────────────────────────────────────────────────
+
+export async function syncFightOdds(now = new Date(), job?: Job): Promise<OddsSyncReport> {
+  const report: OddsSyncReport = { apiEvents: 0, fights: 0, updated: 0, withoutPrices: 0, unmatched: [], quotaRemaining: getOddsApiQuota().remaining };
+  if (!ENV.oddsApiKey) return { ...report, skipped: "ODDS_API_KEY not set" };
+
+  const entries = await db.getFightsForOddsSync(new Date(now.getTime() + ENV.oddsSyncHorizonDays * 24 * 60 * 60 * 1000));
+  report.fights = entries.length;
+  if (entries.length === 0) return report;
+
+  const apiEvents = await requestMMAOdds("sync");
+  report.apiEvents = apiEvents.length;
+  report.quotaRemaining = getOddsApiQuota().remaining;
+  const byId = new Map(apiEvents.map((e) => [e.id, e]));
+
+  const unmatched = (entry: SyncFight, reason: string) => report.unmatched.push({
+    fightId: entry.fight.id,
+    eventId: entry.event.id,
+    eventName: entry.event.name,
+    bout: `${entry.fight.fighter1Name} vs ${entry.fight.fighter2Name}`,
+    startsAt: fightStart(entry),
+    reason,
+  });
+
+  // Linked fights keep their events; the rest are matched from what is left
+  const claimed = new Set(entries.map(({ fight }) => fight.oddsApiEventId).filter((id): id is string => id != null));
+  for (const entry of entries) {
+    const { fight } = entry;
+    let apiEvent: OddsApiEvent | undefined;
+    if (fight.oddsApiEventId) {
+      apiEvent = byId.get(fight.oddsApiEventId);
+      if (!apiEvent) {
+        unmatched(entry, `Linked Odds API event ${fight.oddsApiEventId} is not in the feed`);
+        continue;
+      }
+    } else {
+      const match = findApiEvent(entry, apiEvents, claimed);
+      if ("reason" in match) {
+        unmatched(entry, match.reason);
+        continue;
+      }
+      apiEvent = match.apiEvent;
+      claimed.add(apiEvent.id);
+    }
+
+    const lines = bookmakerLines(apiEvent, fight);
+    const odds = getConsensusOdds(lines);
+    if (!odds) {
+      report.withoutPrices++;
+      // Still remember the match so the next run does not have to find it again
+      if (!fight.oddsApiEventId) await withJobLease(job, (tx) => db.setFightOddsApiEventId(fight.id, apiEvent.id, tx));
+      continue;
+    }
+    await withJobLease(job, async (tx) => {
+      await db.updateFightOdds(fight.id, odds.odds1, odds.odds2, fight.oddsApiEventId ? undefined : apiEvent.id, tx);
+      await db.insertOddsSnapshots([
+        ...lines.map((line) => ({
+          fightId: fight.id,
+          oddsApiEventId: apiEvent.id,
+          bookmaker: line.bookmaker,
+          market: "h2h",
+          odds1: line.odds1,
+          odds2: line.odds2,
+          bookmakerUpdatedAt: line.updatedAt,
+        })),
+        { fightId: fight.id, oddsApiEventId: apiEvent.id, bookmaker: CONSENSUS, market: "h2h", odds1: odds.odds1, odds2: odds.odds2 },
+      ], tx);
+    });
+    report.updated++;
+  }
+
+  console.log(`[OddsSync] ${report.updated}/${report.fights} fights updated, ${report.unmatched.length} unmatched, ${report.withoutPrices} without prices`);
+  return report;
+}
+
+/** The most recent successful sync's report, for admins. */
+export async function getLastOddsSyncReport(): Promise<{ ranAt: Date; report: OddsSyncReport } | null> {
+  const runs = await db.getJobRuns({ name: "odds.sync", limit: 20 });
+  const run = runs.find((r) => r.status === "succeeded" && r.result);
+  if (!run?.result) return null;
+  return { ranAt: run.finishedAt ?? run.startedAt, report: JSON.parse(run.result) as OddsSyncReport };
+}
@@ -0,0 +1,213 @@
+/**
+ * FightCred — Profile Counter Rebuild
+ *
+ * userProfiles keeps totalPicks, correctPicks, streaks etc. as incrementally
+ * mutated counters, which drift if a resolve is retried or fails part-way.
+ * This job recomputes every counter, currentStreak, bestStreak and the
+ * userFighterStats rows from the predictions and fights tables in the order
+ * the fights happened, reports differences against what is stored, and
+ * optionally writes the corrections.
+ *
+ * Used by admin.rebuildProfiles and server/scripts/rebuild-profiles.ts.
+ * Only counters are touched — the normalized score is admin.recalcAllScores' job.
+ */
+
+import * as db from "./db";
+import { scorePrediction } from "./fight-resolution";
+import { getActiveScoringRules, getScoringRulesVersion } from "./scoring-rules";
+import type { ScoringRules, UserProfile } from "../shared/types";
+
+const COUNTER_FIELDS = [
+  "totalPicks",
+  "correctPicks",
+  "correctFinishPicks",
+  "totalFinishPicks",
+  "correctMethodPicks",
+  "totalMethodPicks",
+  "correctUnderdogPicks",
+  "totalUnderdogPicks",
+  "currentStreak",
+  "bestStreak",
+] as const;
+
+type CounterField = (typeof COUNTER_FIELDS)[number];
+type ProfileCounters = Record<CounterField, number>;
+
+export interface FieldDiff {
+  field: string;
+  stored: number;
+  expected: number;
+}
+
+export interface UserRebuildResult {
+  userId: number;
+  profileDiffs: FieldDiff[];
+  fighterStatDiffs: FieldDiff[];
+}
+
+export interface RebuildReport {
+  usersChecked: number;
+  usersWithDiffs: number;
+  applied: boolean;
+  results: UserRebuildResult[];
+}
+
+interface ExpectedFighterStat {
+  fighter: db.StatFighter;
+  totalPicks: number;
+  correctPicks: number;
+}
+
+interface ExpectedState {
+  counters: ProfileCounters;
+  fighterStats: Map<string, ExpectedFighterStat>;
+}
+
+/** Stats are per fighter id, falling back to the name for picks without one. */
+function statKey(fighter: db.StatFighter) {
+  return fighter.id != null ? `id:${fighter.id}` : `name:${fighter.name}`;
+}
+
+// ─── Recompute ────────────────────────────────────────────────────────────────
+
+async function computeExpected(userId: number, conn?: db.DbExecutor): Promise<ExpectedState> {
+  const history = await db.getScoredPredictionsWithFights(userId, conn);
+  const { rules: activeRules } = await getActiveScoringRules();
+  // Each pick is judged by the rule version that scored it, as reverseScoring does
+  const rulesByVersion = new Map<number | null, ScoringRules>();
+  const rulesFor = async (log: { ruleVersion: number | null } | null) => {
+    if (!log) return activeRules;
+    let rules = rulesByVersion.get(log.ruleVersion);
+    if (!rules) {
+      rules = await getScoringRulesVersion(log.ruleVersion);
+      rulesByVersion.set(log.ruleVersion, rules);
+    }
+    return rules;
+  };
+  const counters = Object.fromEntries(COUNTER_FIELDS.map((f) => [f, 0])) as ProfileCounters;
+  const fighterStats = new Map<string, ExpectedFighterStat>();
+
+  for (const { prediction, fight, log } of history) {
+    if (fight.winner == null || fight.finishType == null || fight.method == null) continue;
+    const scored = scorePrediction(prediction, fight, {
+      winner: fight.winner,
+      winnerId: fight.winnerId,
+      finishType: fight.finishType,
+      method: fight.method,
+    }, await rulesFor(log));
+    if (scored.status === "void") continue;
+
+    counters.totalPicks++;
+    if (scored.correctWinner) counters.correctPicks++;
+    if (scored.correctFinish) counters.correctFinishPicks++;
+    if (prediction.pickedFinishType != null) counters.totalFinishPicks++;
+    if (scored.correctMethod) counters.correctMethodPicks++;
+    if (prediction.pickedMethod != null) counters.totalMethodPicks++;
+    if (scored.isUnderdog) counters.totalUnderdogPicks++;
+    if (scored.isUnderdog && scored.correctWinner) counters.correctUnderdogPicks++;
+    counters.currentStreak = scored.correctWinner ? counters.currentStreak + 1 : 0;
+    counters.bestStreak = Math.max(counters.bestStreak, counters.currentStreak);
+
+    const fighter = { id: prediction.pickedWinnerId, name: prediction.pickedWinner };
+    const stat = fighterStats.get(statKey(fighter)) ?? { fighter, totalPicks: 0, correctPicks: 0 };
+    stat.totalPicks++;
+    if (scored.correctWinner) stat.correctPicks++;
+    fighterStats.set(statKey(fighter), stat);
+  }
+
+  return { counters, fighterStats };
+}
+
+function diffProfile(profile: UserProfile, expected: ProfileCounters): FieldDiff[] {
+  return COUNTER_FIELDS
+    .filter((field) => profile[field] !== expected[field])
+    .map((field) => ({ field, stored: profile[field], expected: expected[field] }));
+}
+
+async function diffFighterStats(userId: number, expected: ExpectedState["fighterStats"], conn?: db.DbExecutor) {
+  const stored = await db.getUserFighterStats(userId, conn);
+  const diffs: FieldDiff[] = [];
+  const seen = new Set<string>();
+
+  for (const row of stored) {
+    const key = statKey({ id: row.fighterId, name: row.fighterName });
+    // A second row for the same fighter (spellings merged under one id) should not exist
+    const exp = (!seen.has(key) && expected.get(key)) || { totalPicks: 0, correctPicks: 0 };
+    seen.add(key);
+    if (row.totalPicks !== exp.totalPicks) {
+      diffs.push({ field: `${row.fighterName}.totalPicks`, stored: row.totalPicks, expected: exp.totalPicks });
+    }
+    if (row.correctPicks !== exp.correctPicks) {
+      diffs.push({ field: `${row.fighterName}.correctPicks`, stored: row.correctPicks, expected: exp.correctPicks });
+    }
+  }
+  for (const [key, exp] of expected) {
+    if (seen.has(key)) continue;
+    diffs.push({ field: `${exp.fighter.name}.totalPicks`, stored: 0, expected: exp.totalPicks });
+    if (exp.correctPicks > 0) {
+      diffs.push({ field: `${exp.fighter.name}.correctPicks`, stored: 0, expected: exp.correctPicks });
+    }
+  }
+
+  return { diffs, stored };
+}
+
+// ─── Rebuild ──────────────────────────────────────────────────────────────────
+
+/** Check (and with apply, correct) one user's counters and fighter stats. */
+export async function rebuildUserProfile(userId: number, apply: boolean): Promise<UserRebuildResult | null> {
+  const drizzleDb = await db.getDb();
+  if (!drizzleDb) throw new Error("Database not available");
+
+  // Read and write in one transaction so a resolve landing mid-rebuild is not overwritten
+  return drizzleDb.transaction(async (tx) => {
+    const profile = await db.getUserProfile(userId, tx);
+    if (!profile) return null;
+
+    const expected = await computeExpected(userId, tx);
+    const profileDiffs = diffProfile(profile, expected.counters);
+    const { diffs: fighterStatDiffs, stored } = await diffFighterStats(userId, expected.fighterStats, tx);
+
+    if (apply && profileDiffs.length > 0) {
+      await db.updateUserProfile(userId, expected.counters, tx);
+    }
+    if (apply && fighterStatDiffs.length > 0) {
+      const kept = new Set<string>();
+      for (const row of stored) {
+        const key = statKey({ id: row.fighterId, name: row.fighterName });
+        if (!expected.fighterStats.has(key) || kept.has(key)) await db.deleteFighterStat(row.id, tx);
+        else kept.add(key);
+      }
+      for (const stat of expected.fighterStats.values()) {
+        await db.setFighterStat(userId, stat.fighter, stat.totalPicks, stat.correctPicks, tx);
+      }
+    }
+
+    return { userId, profileDiffs, fighterStatDiffs };
+  });
+}
+
+/**
+ * Rebuild counters for every profile (or a single user). Without apply this is
+ * a dry run that only reports differences. Only users with differences are
+ * included in the results.
+ */
+export async function rebuildProfiles(options: { apply?: boolean; userId?: number } = {}): Promise<RebuildReport> {
+  const apply = options.apply ?? false;
+  const userIds = options.userId != null ? [options.userId] : await db.getProfileUserIds();
+  const results: UserRebuildResult[] = [];
+
+  for (const userId of userIds) {
+    const result = await rebuildUserProfile(userId, apply);
+    if (result && (result.profileDiffs.length > 0 || result.fighterStatDiffs.length > 0)) {
+      results.push(result);
+    }
+  }
+
+  return {
+    usersChecked: userIds.length,
+    usersWithDiffs: results.length,
+    applied: apply,
+    results,
+  };
+}
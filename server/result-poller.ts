@@ -1,128 +1,158 @@
 /**
  * FightCred — Automated Fight Result Poller
  *
- * Runs as a background job inside the Express server.
- * Every 10 minutes it checks for fights that are:
+ * Runs as the "results.poll" background job (see jobs.ts). Each run checks
+ * for fights that are:
  *   1. In "live" status (predictions locked, fight started)
  *   2. Scheduled to have started (status=upcoming but past scheduledStartTime)
  *
- * It queries the ESPN MMA API for results and auto-resolves fights,
- * which triggers the credibility scoring pipeline.
+ * The cadence adapts (decidePollCadence): every POLL_FAST_INTERVAL_SECONDS
+ * while a card is live or a fight starts within POLL_LOOKAHEAD_MINUTES,
+ * otherwise every POLL_SLOW_INTERVAL_MINUTES — waking early for the next card.
+ * Each decision and its reason is stored on the next queued poll job.
  *
- * ESPN MMA API (public, no key required):
- *   https://site.api.espn.com/apis/site/v2/sports/mma/ufc/scoreboard
- *   https://site.api.espn.com/apis/site/v2/sports/mma/ufc/summary?event={id}
+ * Results come from the providers in RESULTS_PROVIDERS (see server/results/).
+ * Every provider is asked about every pending fight and their final results
+ * are cross-checked: if they agree (or only one has a result) the fight is
+ * resolved or cancelled through the shared resolution service (see
+ * fight-resolution.ts); if they disagree on the outcome, winner or method, or
+ * the match confidence is below RESULT_CONFIDENCE_THRESHOLD, the fight is held
+ * in result_reviews with the providers' raw data for an admin instead (see
+ * result-reviews.ts). A result an admin already rejected is not queued again.
  */
 
-import axios from "axios";
-import { getDb } from "./db";
+import { getDb, getFightersByIds, getFightIdsAwaitingReview, getPollingState, createResultReview, getRejectedResultReviews } from "./db";
 import { events, fights } from "../drizzle/schema";
 import { and, eq, lte, or } from "drizzle-orm";
-import { calculateCredibility, getTierFromScore } from "../shared/types";
-import * as db from "./db";
-import { notifyOwner } from "./_core/notification";
+import { cancelFight, resolveFightResult, type ResolutionReport } from "./fight-resolution";
+import { enqueueJob, type NextRun } from "./job-queue";
+import { ENV } from "./_core/env";
+import { getResultsProviders, normalizeFinishType, toFightResultInput, type PendingCard, type ProviderFightResult } from "./results";
+import type { Fight, ResultReview } from "../shared/types";
 
-const ESPN_BASE = "https://site.api.espn.com/apis/site/v2/sports/mma/ufc";
-const POLL_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+// ─── Cadence ──────────────────────────────────────────────────────────────────
 
-// ─── ESPN Types ───────────────────────────────────────────────────────────────
+// Fights that started longer ago than this no longer count as live for cadence
+const LIVE_WINDOW_MS = 12 * 60 * 60 * 1000;
 
-interface ESPNCompetitor {
-  id: string;
-  athlete: { displayName: string; shortName: string };
-  winner?: boolean;
-  score?: string;
+export interface PollCadence extends NextRun {
+  mode: "fast" | "slow";
 }
 
-interface ESPNStatus {
-  type: { name: string; completed: boolean; description: string };
-}
+/** How long to wait before the next poll, and why. */
+export async function decidePollCadence(now = new Date()): Promise<PollCadence> {
+  const fastMs = ENV.pollFastIntervalSeconds * 1000;
+  const slowMs = ENV.pollSlowIntervalMinutes * 60 * 1000;
+  const lookaheadMs = ENV.pollLookaheadMinutes * 60 * 1000;
+  const state = await getPollingState(new Date(now.getTime() - LIVE_WINDOW_MS));
 
-interface ESPNCompetition {
-  id: string;
-  status: ESPNStatus;
-  competitors: ESPNCompetitor[];
-  details?: Array<{ type: { text: string }; clock?: { displayValue: string }; period?: number }>;
+  if (state.liveEvents.length > 0) {
+    return { mode: "fast", delayMs: fastMs, reason: `Live card: ${state.liveEvents.join(", ")}` };
+  }
+  if (state.liveFights > 0) {
+    return { mode: "fast", delayMs: fastMs, reason: `${state.liveFights} fight(s) live` };
+  }
+  if (state.nextStart && state.nextStart.getTime() - now.getTime() <= lookaheadMs) {
+    return { mode: "fast", delayMs: fastMs, reason: `Next fight starts at ${state.nextStart.toISOString()}` };
+  }
+  if (state.nextStart) {
+    // Sleep slowly, but wake up in time to go fast before the next card
+    const untilLookahead = state.nextStart.getTime() - lookaheadMs - now.getTime();
+    if (untilLookahead < slowMs) {
+      return { mode: "slow", delayMs: Math.max(untilLookahead, fastMs), reason: `Waking for next fight at ${state.nextStart.toISOString()}` };
+    }
+  }
+  return { mode: "slow", delayMs: slowMs, reason: state.nextStart ? `Next fight at ${state.nextStart.toISOString()}` : "No upcoming fights" };
 }
 
-interface ESPNEvent {
-  id: string;
-  name: string;
-  date: string;
-  competitions: ESPNCompetition[];
-}
+// ─── Cross-check ──────────────────────────────────────────────────────────────
 
-// ─── Normalize method from ESPN text ─────────────────────────────────────────
+type Decision =
+  | { action: "none" }
+  | { action: "cancel"; result: ProviderFightResult }
+  | { action: "resolve"; result: ProviderFightResult }
+  | { action: "review"; result: ProviderFightResult; reason: string };
 
-function normalizeMethod(text: string): "tko_ko" | "submission" | "decision" | "draw" | "nc" {
-  const t = text.toLowerCase();
-  if (t.includes("ko") || t.includes("tko") || t.includes("knockout")) return "tko_ko";
-  if (t.includes("sub") || t.includes("choke") || t.includes("lock") || t.includes("triangle")) return "submission";
-  if (t.includes("draw")) return "draw";
-  if (t.includes("no contest") || t.includes("nc")) return "nc";
-  return "decision";
+/** Same winner — by fighter id when both providers resolved one, otherwise by name. */
+function sameWinner(a: ProviderFightResult, b: ProviderFightResult) {
+  return a.winnerId != null && b.winnerId != null ? a.winnerId === b.winnerId : a.winner === b.winner;
 }
 
-function normalizeFinishType(method: "tko_ko" | "submission" | "decision" | "draw" | "nc"): "finish" | "decision" {
-  return method === "tko_ko" || method === "submission" ? "finish" : "decision";
-}
+/** Decide what to do with a fight from its providers' results, in priority order. */
+function crossCheck(results: ProviderFightResult[]): Decision {
+  const [primary] = results;
+  if (!primary) return { action: "none" };
 
-// ─── Fuzzy name match ─────────────────────────────────────────────────────────
-
-function fuzzyMatch(a: string, b: string): boolean {
-  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z]/g, "");
-  const na = normalize(a);
-  const nb = normalize(b);
-  if (na === nb) return true;
-  // Check if last name matches
-  const lastA = na.split(" ").pop() ?? na;
-  const lastB = nb.split(" ").pop() ?? nb;
-  if (lastA.length > 3 && lastA === lastB) return true;
-  // Check if one contains the other
-  if (na.includes(nb) || nb.includes(na)) return true;
-  return false;
-}
+  for (const other of results.slice(1)) {
+    if (other.status !== primary.status) {
+      return { action: "review", result: primary, reason: `${primary.provider} reports ${primary.status}, ${other.provider} reports ${other.status}` };
+    }
+    if (primary.status === "cancelled") continue;
+    if (!sameWinner(other, primary)) {
+      return {
+        action: "review",
+        result: primary,
+        reason: `Winner disagreement: ${primary.provider} "${primary.winner || "none"}", ${other.provider} "${other.winner || "none"}"`,
+      };
+    }
+    if (other.method !== primary.method) {
+      return { action: "review", result: primary, reason: `Method disagreement: ${primary.provider} ${primary.method}, ${other.provider} ${other.method}` };
+    }
+  }
 
-// ─── Fetch ESPN scoreboard for UFC events ────────────────────────────────────
-
-async function fetchESPNScoreboard(): Promise<ESPNEvent[]> {
-  try {
-    const res = await axios.get(`${ESPN_BASE}/scoreboard`, {
-      params: { limit: 20 },
-      timeout: 10000,
-    });
-    return (res.data?.events ?? []) as ESPNEvent[];
-  } catch (e) {
-    console.warn("[ResultPoller] ESPN scoreboard fetch failed:", e);
-    return [];
+  // Agreeing providers corroborate each other, so the best match decides
+  const confidence = Math.max(...results.map((r) => r.confidence));
+  if (confidence < ENV.resultConfidenceThreshold) {
+    return { action: "review", result: primary, reason: `Low match confidence (${Math.round(confidence * 100)}%)` };
   }
+
+  return primary.status === "cancelled" ? { action: "cancel", result: primary } : { action: "resolve", result: primary };
 }
 
-async function fetchESPNEventSummary(espnEventId: string): Promise<ESPNEvent | null> {
-  try {
-    const res = await axios.get(`${ESPN_BASE}/summary`, {
-      params: { event: espnEventId },
-      timeout: 10000,
-    });
-    return res.data as ESPNEvent;
-  } catch (e) {
-    console.warn(`[ResultPoller] ESPN summary fetch failed for event ${espnEventId}:`, e);
-    return null;
-  }
+/** Whether an admin already rejected exactly this result for the fight. */
+function wasRejected(result: ProviderFightResult, rejected: ResultReview[]): boolean {
+  return rejected.some((review) =>
+    review.fightId === result.fightId &&
+    review.proposedStatus === result.status &&
+    (result.status === "cancelled" || (review.winner === result.winner && review.method === result.method)),
+  );
+}
+
+async function holdForReview(fight: Fight, decision: Extract<Decision, { action: "review" }>, results: ProviderFightResult[]) {
+  const { result } = decision;
+  await createResultReview({
+    fightId: fight.id,
+    reason: decision.reason,
+    proposedStatus: result.status,
+    winner: result.status === "completed" ? result.winner : null,
+    finishType: result.status === "completed" ? normalizeFinishType(result.method) : null,
+    method: result.status === "completed" ? result.method : null,
+    providerResults: JSON.stringify(results.map(({ raw: _raw, ...rest }) => rest)),
+    confidence: Math.round(result.confidence * 100),
+    rawPayload: JSON.stringify(Object.fromEntries(results.map((r) => [r.provider, r.raw]))),
+  });
+  console.warn(`[ResultPoller] ⚠️ Held for review: ${fight.fighter1Name} vs ${fight.fighter2Name} — ${decision.reason}`);
+
+  await enqueueJob("notify.owner", {
+    title: `FightCred: Result Needs Review`,
+    content: `${fight.fighter1Name} vs ${fight.fighter2Name} was not auto-resolved. ${decision.reason}.`,
+  }).catch((err) => console.warn("[ResultPoller] Failed to queue notification:", err));
 }
 
 // ─── Core poll logic ──────────────────────────────────────────────────────────
 
-export async function pollFightResults(): Promise<{ resolved: number; errors: string[] }> {
+export async function pollFightResults(): Promise<{ resolved: number; held: number; errors: string[]; reports: ResolutionReport[] }> {
   const drizzleDb = await getDb();
-  if (!drizzleDb) return { resolved: 0, errors: ["Database not available"] };
+  if (!drizzleDb) return { resolved: 0, held: 0, errors: ["Database not available"], reports: [] };
 
   const now = new Date();
   const errors: string[] = [];
+  const reports: ResolutionReport[] = [];
   let resolved = 0;
+  let held = 0;
 
   // Find fights that should have results: live OR upcoming but past start time
-  const pendingFights = await drizzleDb
+  const candidates = await drizzleDb
     .select({ fight: fights, event: events })
     .from(fights)
     .innerJoin(events, eq(fights.eventId, events.id))
@@ -137,160 +167,75 @@ export async function pollFightResults(): Promise<{ resolved: number; errors: st
         ),
       ),
     );
+  // Fights already waiting on an admin are not polled again
+  const awaitingReview = new Set(await getFightIdsAwaitingReview());
+  const pendingFights = candidates.filter(({ fight }) => !awaitingReview.has(fight.id));
 
   if (pendingFights.length === 0) {
     console.log("[ResultPoller] No pending fights to check.");
-    return { resolved: 0, errors: [] };
+    return { resolved: 0, held: 0, errors: [], reports: [] };
   }
 
   console.log(`[ResultPoller] Checking ${pendingFights.length} pending fights...`);
 
-  // Fetch ESPN scoreboard
-  const espnEvents = await fetchESPNScoreboard();
+  const fighterIds = pendingFights.flatMap(({ fight }) => [fight.fighter1Id, fight.fighter2Id]).filter((id): id is number => id != null);
+  const fightersById = new Map((await getFightersByIds([...new Set(fighterIds)])).map((f) => [f.id, f]));
 
+  const cards = new Map<number, PendingCard>();
   for (const { fight, event } of pendingFights) {
+    const card = cards.get(event.id) ?? { event, fights: [], fighters: fightersById };
+    card.fights.push(fight);
+    cards.set(event.id, card);
+  }
+
+  // Ask every provider about every pending fight; one failing source must not stop the others
+  const providers = getResultsProviders();
+  const providerResults = await Promise.all(providers.map(async (provider) => {
+    try {
+      return await provider.fetchResults([...cards.values()]);
+    } catch (err) {
+      errors.push(`Provider ${provider.name} failed: ${err}`);
+      return [];
+    }
+  }));
+
+  const rejected = await getRejectedResultReviews(pendingFights.map(({ fight }) => fight.id));
+
+  for (const { fight } of pendingFights) {
     try {
-      // Find matching ESPN event by name similarity
-      const matchingESPNEvent = espnEvents.find((e) =>
-        fuzzyMatch(e.name, event.name) ||
-        fuzzyMatch(e.name, event.shortName ?? "") ||
-        // Also match by date proximity (within 2 days)
-        Math.abs(new Date(e.date).getTime() - new Date(event.eventDate).getTime()) < 2 * 24 * 60 * 60 * 1000,
-      );
-
-      if (!matchingESPNEvent) continue;
-
-      // Find matching competition (fight) within the event
-      const matchingComp = matchingESPNEvent.competitions.find((comp) => {
-        const names = comp.competitors.map((c) => c.athlete.displayName);
-        return (
-          names.some((n) => fuzzyMatch(n, fight.fighter1Name)) &&
-          names.some((n) => fuzzyMatch(n, fight.fighter2Name))
-        );
-      });
-
-      if (!matchingComp) continue;
-      if (!matchingComp.status.type.completed) continue;
-
-      // Find winner
-      const winner = matchingComp.competitors.find((c) => c.winner);
-      if (!winner) continue;
-
-      const winnerName = winner.athlete.displayName;
-
-      // Determine which DB fighter name matches
-      const resolvedWinner = fuzzyMatch(winnerName, fight.fighter1Name)
-        ? fight.fighter1Name
-        : fuzzyMatch(winnerName, fight.fighter2Name)
-          ? fight.fighter2Name
-          : null;
-
-      if (!resolvedWinner) continue;
-
-      // Get method from details
-      let methodText = matchingComp.status.type.description ?? "Decision";
-      if (matchingComp.details && matchingComp.details.length > 0) {
-        methodText = matchingComp.details[0].type?.text ?? methodText;
+      const results = providerResults.flatMap((list) => list.filter((r) => r.fightId === fight.id));
+      const decision = crossCheck(results);
+
+      if (decision.action === "none") continue;
+      if (wasRejected(decision.result, rejected)) continue;
+
+      if (decision.action === "review") {
+        await holdForReview(fight, decision, results);
+        held++;
+        continue;
       }
 
-      const method = normalizeMethod(methodText);
-      const finishType = normalizeFinishType(method);
-
-      // Resolve the fight in DB
-      await db.resolveFight(fight.id, resolvedWinner, finishType, method);
-
-      // Lock predictions
-      await db.lockPredictionsForFight(fight.id);
-
-      // Trigger credibility scoring for all predictions on this fight
-      const allPredictions = await db.getPredictionsForFight(fight.id);
-
-      for (const pred of allPredictions) {
-        const pickedFighter1 = pred.pickedWinner === fight.fighter1Name;
-        const pickedOdds = pickedFighter1 ? fight.odds1 : fight.odds2;
-
-        const breakdown = calculateCredibility(
-          { pickedWinner: pred.pickedWinner, pickedFinishType: pred.pickedFinishType, pickedMethod: pred.pickedMethod },
-          { winner: resolvedWinner, finishType, method },
-          pickedOdds ?? null,
-        );
-
-        const correctWinner = pred.pickedWinner === resolvedWinner;
-        const correctFinish = pred.pickedFinishType === finishType;
-        const correctMethod =
-          finishType === "finish" &&
-          pred.pickedFinishType === "finish" &&
-          pred.pickedMethod != null &&
-          ((method === "tko_ko" && pred.pickedMethod === "tko_ko") ||
-            (method === "submission" && pred.pickedMethod === "submission"));
-
-        let status: "correct" | "wrong" | "partial" = "wrong";
-        if (correctWinner && correctFinish && (finishType === "decision" || correctMethod)) {
-          status = "correct";
-        } else if (correctWinner || correctFinish) {
-          status = "partial";
-        }
-
-        // Update prediction
-        await drizzleDb.update(
-          (await import("../drizzle/schema")).predictions,
-        ).set({
-          status,
-          winnerPoints: breakdown.winnerPoints,
-          finishTypePoints: breakdown.finishTypePoints,
-          methodPoints: breakdown.methodPoints,
-          bonusPoints: breakdown.underdogBonus + breakdown.perfectPickBonus,
-          totalPoints: breakdown.totalPoints,
-        }).where((await import("drizzle-orm")).eq((await import("../drizzle/schema")).predictions.id, pred.id));
-
-        // Insert credibility log
-        await db.insertCredibilityLog({
-          userId: pred.userId,
-          fightId: fight.id,
-          predictionId: pred.id,
-          winnerPoints: breakdown.winnerPoints,
-          finishTypePoints: breakdown.finishTypePoints,
-          methodPoints: breakdown.methodPoints,
-          bonusPoints: breakdown.underdogBonus + breakdown.perfectPickBonus,
-          totalPoints: breakdown.totalPoints,
-          breakdown: JSON.stringify(breakdown),
-        });
-
-        // Update user profile stats
-        const profile = await db.getUserProfile(pred.userId);
-        if (profile) {
-          const isUnderdog = pickedOdds != null && pickedOdds >= 150;
-          const newScore = profile.credibilityScore + breakdown.totalPoints;
-          const newTier = getTierFromScore(newScore);
-          const newStreak = correctWinner ? profile.currentStreak + 1 : 0;
-
-          await db.updateUserProfile(pred.userId, {
-            credibilityScore: newScore,
-            tier: newTier,
-            totalPicks: profile.totalPicks + 1,
-            correctPicks: profile.correctPicks + (correctWinner ? 1 : 0),
-            correctFinishPicks: profile.correctFinishPicks + (correctFinish ? 1 : 0),
-            totalFinishPicks: profile.totalFinishPicks + (pred.pickedFinishType != null ? 1 : 0),
-            correctMethodPicks: profile.correctMethodPicks + (correctMethod ? 1 : 0),
-            totalMethodPicks: profile.totalMethodPicks + (pred.pickedMethod != null ? 1 : 0),
-            correctUnderdogPicks: profile.correctUnderdogPicks + (isUnderdog && correctWinner ? 1 : 0),
-            totalUnderdogPicks: profile.totalUnderdogPicks + (isUnderdog ? 1 : 0),
-            currentStreak: newStreak,
-            bestStreak: Math.max(profile.bestStreak, newStreak),
-          });
-
-          await db.upsertFighterStat(pred.userId, pred.pickedWinner, correctWinner);
-        }
+      // Cancelled bouts void every pick
+      if (decision.action === "cancel") {
+        const report = await cancelFight(fight.id);
+        console.log(`[ResultPoller] Cancelled: ${fight.fighter1Name} vs ${fight.fighter2Name} (${report.predictionsVoided} picks voided, via ${decision.result.provider})`);
+        continue;
       }
 
+      // Resolve the fight and score its predictions
+      // with round, time, method wording, decision type and referee when reported
+      const { winner, method, provider } = decision.result;
+      const report = await resolveFightResult(toFightResultInput(decision.result));
+      reports.push(report);
+
       resolved++;
-      console.log(`[ResultPoller] ✅ Resolved: ${fight.fighter1Name} vs ${fight.fighter2Name} → ${resolvedWinner} by ${method}`);
+      console.log(`[ResultPoller] ✅ Resolved: ${fight.fighter1Name} vs ${fight.fighter2Name} → ${winner || "no winner"} by ${method} (via ${provider})`);
 
-      // Notify owner of auto-resolved fight
-      await notifyOwner({
+      // Notify owner of auto-resolved fight (queued so delivery is retried)
+      await enqueueJob("notify.owner", {
         title: `FightCred: Fight Auto-Resolved`,
-        content: `${fight.fighter1Name} vs ${fight.fighter2Name} → Winner: ${resolvedWinner} by ${method.toUpperCase()}. ${allPredictions.length} predictions scored.`,
-      }).catch(() => {});
+        content: `${fight.fighter1Name} vs ${fight.fighter2Name} → Winner: ${winner || "none"} by ${method.toUpperCase()}. ${report.predictionsScored} predictions scored, ${report.tierChanges.length} tier changes.`,
+      }).catch((err) => console.warn("[ResultPoller] Failed to queue notification:", err));
 
     } catch (err) {
       const msg = `Error resolving ${fight.fighter1Name} vs ${fight.fighter2Name}: ${err}`;
@@ -299,34 +244,5 @@ export async function pollFightResults(): Promise<{ resolved: number; errors: st
     }
   }
 
-  return { resolved, errors };
-}
-
-// ─── Start background polling ─────────────────────────────────────────────────
-
-let pollerInterval: ReturnType<typeof setInterval> | null = null;
-
-export function startResultPoller() {
-  if (pollerInterval) return;
-
-  console.log(`[ResultPoller] Starting — polling every ${POLL_INTERVAL_MS / 60000} minutes`);
-
-  // Run immediately on start, then on interval
-  pollFightResults().then(({ resolved, errors }) => {
-    if (resolved > 0) console.log(`[ResultPoller] Initial poll: ${resolved} fights resolved`);
-    if (errors.length > 0) console.warn(`[ResultPoller] Initial poll errors:`, errors);
-  });
-
-  pollerInterval = setInterval(async () => {
-    const { resolved, errors } = await pollFightResults();
-    if (resolved > 0) console.log(`[ResultPoller] Poll: ${resolved} fights resolved`);
-    if (errors.length > 0) console.warn(`[ResultPoller] Poll errors:`, errors);
-  }, POLL_INTERVAL_MS);
-}
-
-export function stopResultPoller() {
-  if (pollerInterval) {
-    clearInterval(pollerInterval);
-    pollerInterval = null;
-  }
+  return { resolved, held, errors, reports };
 }
@@ -0,0 +1,91 @@
+/**
+ * FightCred — Result Review Queue
+ *
+ * Automatic results the poller was not sure about (providers disagreeing, or
+ * a match confidence below RESULT_CONFIDENCE_THRESHOLD) wait in
+ * result_reviews instead of being applied. An admin approves the proposed
+ * result, edits it and applies the corrected version, or rejects it. Applying
+ * goes through the shared resolution service like any other result.
+ */
+
+import * as db from "./db";
+import { cancelFight, resolveFightResult, type CancellationReport, type FightResultInput, type ResolutionReport } from "./fight-resolution";
+import { toFightResultInput, type ProviderFightResult } from "./results";
+import type { ResultReview } from "../shared/types";
+
+/** The result an admin settles a review with. */
+export type ReviewedResult =
+  | { status: "cancelled" }
+  | ({ status: "completed" } & Omit<FightResultInput, "fightId">);
+
+export interface ReviewOutcome {
+  reviewId: number;
+  fightId: number;
+  status: ResultReview["status"];
+  report: ResolutionReport | CancellationReport | null;
+}
+
+async function getPendingReview(reviewId: number): Promise<ResultReview> {
+  const review = await db.getResultReviewById(reviewId);
+  if (!review) throw new Error("Review not found");
+  if (review.status !== "pending") throw new Error(`Review already ${review.status}`);
+  return review;
+}
+
+function proposedResult(review: ResultReview): ReviewedResult {
+  if (review.proposedStatus === "cancelled") return { status: "cancelled" };
+  if (review.winner == null || !review.finishType || !review.method) {
+    throw new Error("Review has no complete proposed result — edit it instead");
+  }
+  // Round, time, referee etc. come from the provider result the proposal was taken from
+  const providerResults = JSON.parse(review.providerResults) as ProviderFightResult[];
+  const source = providerResults.find((r) => r.status === "completed" && r.winner === review.winner && r.method === review.method);
+  const details = source ? toFightResultInput(source) : {};
+  return { ...details, status: "completed", winner: review.winner, finishType: review.finishType, method: review.method };
+}
+
+async function applyResult(reviewId: number, fightId: number, result: ReviewedResult, note?: string): Promise<ReviewOutcome> {
+  let report: ResolutionReport | CancellationReport;
+  if (result.status === "cancelled") {
+    report = await cancelFight(fightId);
+  } else {
+    const fight = await db.getFightById(fightId);
+    if (!fight) throw new Error("Fight not found");
+    const noWinner = result.method === "draw" || result.method === "nc";
+    if (noWinner ? result.winner !== "" : result.winner !== fight.fighter1Name && result.winner !== fight.fighter2Name) {
+      throw new Error(noWinner ? "Draws and no contests have no winner" : "Winner must be one of the fight's fighters");
+    }
+    const { status: _status, ...input } = result;
+    report = await resolveFightResult({ ...input, fightId });
+  }
+
+  await db.updateResultReview(reviewId, { status: "approved", note: note ?? null, reviewedAt: new Date() });
+  console.log(`[ResultReview] Review #${reviewId} approved for fight ${fightId}`);
+  return { reviewId, fightId, status: "approved", report };
+}
+
+/** Apply the result exactly as the poller proposed it. */
+export async function approveResultReview(reviewId: number, note?: string): Promise<ReviewOutcome> {
+  const review = await getPendingReview(reviewId);
+  return applyResult(review.id, review.fightId, proposedResult(review), note);
+}
+
+/** Apply a corrected result in place of the proposal, recording what was applied. */
+export async function editResultReview(reviewId: number, result: ReviewedResult, note?: string): Promise<ReviewOutcome> {
+  const review = await getPendingReview(reviewId);
+  await db.updateResultReview(review.id, result.status === "cancelled"
+    ? { proposedStatus: "cancelled", winner: null, finishType: null, method: null }
+    : { proposedStatus: "completed", winner: result.winner, finishType: result.finishType, method: result.method });
+  return applyResult(review.id, review.fightId, result, note);
+}
+
+/**
+ * Discard the proposal. The fight goes back to polling, but the poller will
+ * not queue this same result again.
+ */
+export async function rejectResultReview(reviewId: number, note?: string): Promise<ReviewOutcome> {
+  const review = await getPendingReview(reviewId);
+  await db.updateResultReview(review.id, { status: "rejected", note: note ?? null, reviewedAt: new Date() });
+  console.log(`[ResultReview] Review #${review.id} rejected for fight ${review.fightId}`);
+  return { reviewId: review.id, fightId: review.fightId, status: "rejected", report: null };
+}
@@ -0,0 +1,235 @@
+/**
+ * ESPN results provider.
+ *
+ * ESPN MMA API (public, no key required):
+ *   https://site.api.espn.com/apis/site/v2/sports/mma/ufc/scoreboard
+ *   https://site.api.espn.com/apis/site/v2/sports/mma/ufc/summary?event={id}
+ *
+ * With ESPN_FIXTURE_DIR set, responses are read from recorded files instead
+ * (scoreboard.json, summary-{id}.json), or with ESPN_FIXTURE_MODE=record the
+ * live responses are written there — see scripts/replay-results.ts.
+ */
+
+import axios from "axios";
+import { promises as fs } from "fs";
+import path from "path";
+import { ENV } from "../_core/env";
+import {
+  boutMatchScore,
+  eventMatchScore,
+  fightSide,
+  matchConfidence,
+  matchFighterName,
+  NO_WINNER,
+  normalizeMethod,
+  parseDecisionType,
+  type WinnerMatch,
+} from "./matching";
+import type { PendingCard, ProviderFightResult, ResultsProvider } from "./types";
+import type { Fight, Fighter } from "../../shared/types";
+
+const ESPN_BASE = "https://site.api.espn.com/apis/site/v2/sports/mma/ufc";
+
+// ─── ESPN Types ───────────────────────────────────────────────────────────────
+
+interface ESPNCompetitor {
+  id: string;
+  athlete: { id?: string; displayName: string; shortName: string };
+  winner?: boolean;
+  score?: string;
+}
+
+interface ESPNStatus {
+  type: { name: string; completed: boolean; description: string };
+  period?: number;
+  displayClock?: string;
+}
+
+interface ESPNDetail {
+  type: { text: string };
+  clock?: { displayValue: string };
+  period?: number;
+}
+
+interface ESPNOfficial {
+  displayName?: string;
+  fullName?: string;
+  position?: { name?: string; displayName?: string };
+}
+
+interface ESPNCompetition {
+  id: string;
+  status: ESPNStatus;
+  competitors: ESPNCompetitor[];
+  details?: ESPNDetail[];
+  officials?: ESPNOfficial[];
+}
+
+interface ESPNEvent {
+  id: string;
+  name: string;
+  date: string;
+  competitions: ESPNCompetition[];
+}
+
+// ─── Fetch ESPN scoreboard for UFC events ────────────────────────────────────
+
+/** GET an ESPN endpoint, or its recorded fixture file when fixtures are enabled. */
+async function espnGet(endpoint: string, params: Record<string, string | number>, fixtureFile: string): Promise<unknown> {
+  const file = ENV.espnFixtureDir ? path.join(ENV.espnFixtureDir, fixtureFile) : null;
+  if (file && ENV.espnFixtureMode === "replay") {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  }
+  const res = await axios.get(`${ESPN_BASE}/${endpoint}`, { params, timeout: 10000 });
+  if (file) await fs.writeFile(file, JSON.stringify(res.data, null, 2));
+  return res.data;
+}
+
+async function fetchESPNScoreboard(): Promise<ESPNEvent[]> {
+  try {
+    const data = (await espnGet("scoreboard", { limit: 20 }, "scoreboard.json")) as { events?: ESPNEvent[] } | null;
+    return data?.events ?? [];
+  } catch (e) {
+    console.warn("[ResultPoller] ESPN scoreboard fetch failed:", e);
+    return [];
+  }
+}
+
+export async function fetchESPNEventSummary(espnEventId: string): Promise<ESPNEvent | null> {
+  try {
+    return (await espnGet("summary", { event: espnEventId }, `summary-${espnEventId}.json`)) as ESPNEvent;
+  } catch (e) {
+    console.warn(`[ResultPoller] ESPN summary fetch failed for event ${espnEventId}:`, e);
+    return null;
+  }
+}
+
+// ─── Provider ─────────────────────────────────────────────────────────────────
+
+/** The ESPN data a result came from, as stored on review entries. */
+function rawPayload(espnEvent: ESPNEvent, comp: ESPNCompetition) {
+  return { event: { id: espnEvent.id, name: espnEvent.name, date: espnEvent.date }, competition: comp };
+}
+
+function refereeName(comp: ESPNCompetition): string | undefined {
+  const officials = comp.officials ?? [];
+  const referee = officials.find((o) => /referee/i.test(`${o.position?.name ?? ""} ${o.position?.displayName ?? ""}`)) ?? officials[0];
+  return referee?.displayName ?? referee?.fullName ?? undefined;
+}
+
+function athleteId(competitor: ESPNCompetitor) {
+  return competitor.athlete.id ?? competitor.id;
+}
+
+/** Our side for an ESPN athlete, when that fighter's espnAthleteId is on file. */
+function sideByAthleteId(competitor: ESPNCompetitor, fight: Fight, fighters: Map<number, Fighter>): WinnerMatch | null {
+  const id = athleteId(competitor);
+  if (fight.fighter1Id != null && fighters.get(fight.fighter1Id)?.espnAthleteId === id) return fightSide(fight, 1, 1);
+  if (fight.fighter2Id != null && fighters.get(fight.fighter2Id)?.espnAthleteId === id) return fightSide(fight, 2, 1);
+  return null;
+}
+
+/** Known athlete ids settle the bout outright; otherwise the names are scored. */
+function boutScoreFor(comp: ESPNCompetition, fight: Fight, fighters: Map<number, Fighter>): number {
+  const sides = comp.competitors.map((c) => sideByAthleteId(c, fight, fighters)?.fighterId);
+  if (sides.length === 2 && sides[0] != null && sides[1] != null && sides[0] !== sides[1]) return 1;
+  return boutMatchScore(comp.competitors.map((x) => x.athlete.displayName), fight);
+}
+
+function toResult(
+  comp: ESPNCompetition,
+  fight: Fight,
+  fighters: Map<number, Fighter>,
+  eventScore: number,
+  boutScore: number,
+  raw: unknown,
+): ProviderFightResult | null {
+  // Cancelled bouts void every pick
+  if (comp.status.type.name === "STATUS_CANCELED") {
+    return {
+      provider: "espn",
+      fightId: fight.id,
+      status: "cancelled",
+      winner: "",
+      winnerId: null,
+      method: "nc",
+      methodText: comp.status.type.description,
+      confidence: matchConfidence(eventScore, boutScore),
+      raw,
+    };
+  }
+  if (!comp.status.type.completed) return null;
+
+  // Get method, and the round and clock it ended at, from details
+  const detail = comp.details?.[0];
+  const methodText = detail?.type?.text ?? comp.status.type.description ?? "Decision";
+  const method = normalizeMethod(methodText);
+  const round = detail?.period ?? comp.status.period;
+  const fightTime = detail?.clock?.displayValue ?? comp.status.displayClock;
+
+  // Find winner — draws and no contests have none
+  const winner = comp.competitors.find((c) => c.winner);
+  let resolvedWinner: WinnerMatch | null = null;
+  if (winner) {
+    resolvedWinner = sideByAthleteId(winner, fight, fighters) ?? matchFighterName(winner.athlete.displayName, fight);
+  } else if (method === "draw" || method === "nc") {
+    resolvedWinner = NO_WINNER;
+  }
+  if (resolvedWinner == null) return null;
+
+  return {
+    provider: "espn",
+    fightId: fight.id,
+    status: "completed",
+    winner: resolvedWinner.name,
+    winnerId: resolvedWinner.fighterId,
+    method,
+    methodText,
+    round: round || undefined,
+    fightTime: fightTime || undefined,
+    decisionType: method === "decision" || method === "draw" ? parseDecisionType(methodText) : undefined,
+    referee: refereeName(comp),
+    confidence: matchConfidence(eventScore, boutScore, resolvedWinner.confidence),
+    raw,
+  };
+}
+
+export const espnProvider: ResultsProvider = {
+  name: "espn",
+  async fetchResults(cards: PendingCard[]) {
+    const espnEvents = await fetchESPNScoreboard();
+    const results: ProviderFightResult[] = [];
+
+    for (const { event, fights, fighters } of cards) {
+      // Best matching ESPN event by name, or failing that by date proximity
+      let matchingESPNEvent: ESPNEvent | null = null;
+      let eventScore = 0;
+      for (const candidate of espnEvents) {
+        const score = eventMatchScore(candidate, event);
+        if (score > eventScore) {
+          matchingESPNEvent = candidate;
+          eventScore = score;
+        }
+      }
+      if (!matchingESPNEvent) continue;
+
+      for (const fight of fights) {
+        // Best matching competition (fight) within the event
+        let comp: ESPNCompetition | null = null;
+        let boutScore = 0;
+        for (const candidate of matchingESPNEvent.competitions) {
+          const score = boutScoreFor(candidate, fight, fighters);
+          if (score > boutScore) {
+            comp = candidate;
+            boutScore = score;
+          }
+        }
+        if (!comp) continue;
+        const result = toResult(comp, fight, fighters, eventScore, boutScore, rawPayload(matchingESPNEvent, comp));
+        if (result) results.push(result);
+      }
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,46 @@
+/**
+ * Results provider registry. RESULTS_PROVIDERS lists the enabled providers in
+ * priority order (default "espn,ufc,manual"); when providers agree, the
+ * highest-priority one's result is applied.
+ */
+
+import { ENV } from "../_core/env";
+import { espnProvider } from "./espn";
+import { manualProvider } from "./manual";
+import { ufcProvider } from "./ufc";
+import { normalizeFinishType } from "./matching";
+import type { ProviderFightResult, ResultsProvider } from "./types";
+import type { FightResultInput } from "../fight-resolution";
+
+export type { PendingCard, ProviderFightResult, ResultsProvider } from "./types";
+export { normalizeFinishType };
+
+const PROVIDERS: Record<string, ResultsProvider> = {
+  espn: espnProvider,
+  ufc: ufcProvider,
+  manual: manualProvider,
+};
+
+export function getResultsProviders(): ResultsProvider[] {
+  return ENV.resultsProviders.flatMap((name) => {
+    const provider = PROVIDERS[name];
+    if (!provider) console.warn(`[ResultPoller] Unknown results provider "${name}" in RESULTS_PROVIDERS — skipped`);
+    return provider ? [provider] : [];
+  });
+}
+
+/** The resolution input for a provider's completed result, with every detail it reported. */
+export function toFightResultInput(result: ProviderFightResult): FightResultInput {
+  return {
+    fightId: result.fightId,
+    winner: result.winner,
+    winnerId: result.winnerId,
+    finishType: normalizeFinishType(result.method),
+    method: result.method,
+    round: result.round,
+    fightTime: result.fightTime,
+    methodDetail: result.methodText ? result.methodText.slice(0, 128) : undefined,
+    decisionType: result.decisionType,
+    referee: result.referee,
+  };
+}
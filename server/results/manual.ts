@@ -0,0 +1,144 @@
+/**
+ * Manual-feed results provider.
+ *
+ * Serves results entered by admins, either uploaded through
+ * admin.uploadManualResults (manual_results table) or listed in the JSON file
+ * at MANUAL_RESULTS_FILE. Entries name the fight by id or by its two fighters;
+ * the entry that names a fight best wins, the newest of equally good ones.
+ * A completed entry needs a method, and a winner unless it is a draw or NC.
+ */
+
+import { promises as fs } from "fs";
+import { z } from "zod";
+import * as db from "../db";
+import { ENV } from "../_core/env";
+import { boutMatchScore, matchConfidence, matchFighterName, NO_WINNER, normalizeMethod, parseDecisionType } from "./matching";
+import type { PendingCard, ProviderFightResult, ResultsProvider } from "./types";
+import type { Fight } from "../../shared/types";
+
+export const manualResultSchema = z.object({
+  fightId: z.number().int().optional(),
+  fighter1Name: z.string().min(1),
+  fighter2Name: z.string().min(1),
+  status: z.enum(["completed", "cancelled"]).default("completed"),
+  // Empty for draws and no contests
+  winner: z.string().default(""),
+  method: z.enum(["tko_ko", "submission", "decision", "draw", "nc"]).optional(),
+  methodText: z.string().max(128).optional(),
+  round: z.number().int().min(1).max(5).optional(),
+  fightTime: z.string().max(16).optional(),
+  referee: z.string().max(128).optional(),
+}).superRefine((entry, ctx) => {
+  if (entry.status !== "completed") return;
+  if (entry.method == null && !entry.methodText) {
+    ctx.addIssue({ code: "custom", path: ["method"], message: "A completed result needs a method or methodText" });
+    return;
+  }
+  // Only draws and no contests have no winner
+  const method = entry.method ?? normalizeMethod(entry.methodText ?? "");
+  if (!entry.winner && method !== "draw" && method !== "nc") {
+    ctx.addIssue({ code: "custom", path: ["winner"], message: `A completed ${method} result needs a winner` });
+  }
+});
+
+export type ManualResultEntry = z.infer<typeof manualResultSchema>;
+
+let _fileCache: { mtimeMs: number; entries: ManualResultEntry[] } | null = null;
+
+/** Entries from MANUAL_RESULTS_FILE, re-read only when the file changes. */
+async function loadFileEntries(): Promise<ManualResultEntry[]> {
+  if (!ENV.manualResultsFile) return [];
+  try {
+    const stat = await fs.stat(ENV.manualResultsFile);
+    if (_fileCache && _fileCache.mtimeMs === stat.mtimeMs) return _fileCache.entries;
+    const entries = z.array(manualResultSchema).parse(JSON.parse(await fs.readFile(ENV.manualResultsFile, "utf8")));
+    _fileCache = { mtimeMs: stat.mtimeMs, entries };
+    return entries;
+  } catch (e) {
+    console.warn(`[ResultPoller] Manual results file ${ENV.manualResultsFile} could not be read:`, e);
+    return [];
+  }
+}
+
+// Entries naming the fight by id are certain; otherwise the fighter names decide
+function toResult(entry: ManualResultEntry, fight: Fight, boutScore: number): ProviderFightResult | null {
+  if (entry.status === "cancelled") {
+    return {
+      provider: "manual",
+      fightId: fight.id,
+      status: "cancelled",
+      winner: "",
+      winnerId: null,
+      method: "nc",
+      methodText: entry.methodText ?? "Cancelled",
+      confidence: matchConfidence(1, boutScore),
+      raw: entry,
+    };
+  }
+  const method = entry.method ?? normalizeMethod(entry.methodText ?? "");
+  const winner = entry.winner ? matchFighterName(entry.winner, fight) : NO_WINNER;
+  if (winner == null) return null;
+  return {
+    provider: "manual",
+    fightId: fight.id,
+    status: "completed",
+    winner: winner.name,
+    winnerId: winner.fighterId,
+    method,
+    methodText: entry.methodText ?? method,
+    round: entry.round,
+    fightTime: entry.fightTime,
+    decisionType: method === "decision" || method === "draw" ? parseDecisionType(entry.methodText ?? "") : undefined,
+    referee: entry.referee,
+    confidence: matchConfidence(1, boutScore, winner.confidence),
+    raw: entry,
+  };
+}
+
+/** How well an entry names this fight — 1 for an id match, 0 when it is another fight. */
+function entryMatchScore(entry: ManualResultEntry, fight: Fight): number {
+  if (entry.fightId != null) return entry.fightId === fight.id ? 1 : 0;
+  return boutMatchScore([entry.fighter1Name, entry.fighter2Name], fight);
+}
+
+export const manualProvider: ResultsProvider = {
+  name: "manual",
+  async fetchResults(cards: PendingCard[]) {
+    const fights = cards.flatMap((c) => c.fights);
+    // Uploaded entries are newest first and take precedence over the file
+    const uploaded: ManualResultEntry[] = [];
+    for (const row of await db.getManualResults()) {
+      const parsed = manualResultSchema.safeParse({
+        ...row,
+        fightId: row.fightId ?? undefined,
+        winner: row.winner ?? "",
+        method: row.method ?? undefined,
+        methodText: row.methodText ?? undefined,
+        round: row.round ?? undefined,
+        fightTime: row.fightTime ?? undefined,
+        referee: row.referee ?? undefined,
+      });
+      // Rows uploaded before entries were validated may be incomplete
+      if (parsed.success) uploaded.push(parsed.data);
+      else console.warn(`[ResultPoller] Skipping invalid manual result #${row.id}:`, parsed.error.issues.map((i) => i.message).join("; "));
+    }
+    const entries = [...uploaded, ...(await loadFileEntries()).reverse()];
+
+    const results: ProviderFightResult[] = [];
+    for (const fight of fights) {
+      // The best-matching entry; among equally good ones the newest
+      let entry: ManualResultEntry | null = null;
+      let boutScore = 0;
+      for (const candidate of entries) {
+        const score = entryMatchScore(candidate, fight);
+        if (score > boutScore) {
+          entry = candidate;
+          boutScore = score;
+        }
+      }
+      const result = entry ? toResult(entry, fight, boutScore) : null;
+      if (result) results.push(result);
+    }
+    return results;
+  },
+};
@@ -0,0 +1,148 @@
+/**
+ * Name, event and method matching shared by the results providers.
+ */
+
+import type { DecisionType, Event, FinishType, Fight, MethodType } from "../../shared/types";
+
+// ─── Normalize method from provider text ─────────────────────────────────────
+
+export function normalizeMethod(text: string): MethodType {
+  const t = text.toLowerCase();
+  if (t.includes("ko") || t.includes("tko") || t.includes("knockout")) return "tko_ko";
+  if (t.includes("sub") || t.includes("choke") || t.includes("lock") || t.includes("triangle")) return "submission";
+  if (t.includes("draw")) return "draw";
+  if (t.includes("no contest") || t.includes("nc")) return "nc";
+  return "decision";
+}
+
+export function normalizeFinishType(method: MethodType): FinishType {
+  return method === "tko_ko" || method === "submission" ? "finish" : "decision";
+}
+
+/** Judges' split from provider text ("Unanimous Decision", "Decision - Split", "Majority Draw"). */
+export function parseDecisionType(text: string): DecisionType | undefined {
+  const t = text.toLowerCase();
+  if (t.includes("unanimous")) return "unanimous";
+  if (t.includes("split")) return "split";
+  if (t.includes("majority")) return "majority";
+  return undefined;
+}
+
+// ─── Name matching with confidence ───────────────────────────────────────────
+//
+// Every match is scored 0-1 instead of being a yes/no, so the poller can send
+// anything it is unsure about to an admin rather than resolving it:
+//   1     same name (ignoring case, accents, punctuation and Jr./Sr. suffixes)
+//   0.9   one name is the other plus extra names ("Jose Aldo" / "Jose Aldo Junior")
+//   0.85  same surname and first initial ("J. Jones" / "Jon Jones")
+//   0.6   same surname only
+//   0.5   one name contained in the other once spaces are dropped ("Daun Jung")
+
+const NAME_SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv", "junior"]);
+
+function nameTokens(s: string, keepDigits = false): string[] {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(keepDigits ? /[^a-z0-9\s-]/g : /[^a-z\s-]/g, "")
+    .split(/[\s-]+/)
+    .filter(Boolean);
+}
+
+/** Tokens of the shorter list all appear in the longer one. */
+function isTokenSubset(a: string[], b: string[]) {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length > 0 && shorter.every((t) => longer.includes(t));
+}
+
+export function nameMatchScore(a: string, b: string): number {
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  if (ta.length === 0 || tb.length === 0) return 0;
+  if (ta.join(" ") === tb.join(" ")) return 1;
+
+  // Suffixes only count when everything else is identical
+  const ca = ta.filter((t) => !NAME_SUFFIXES.has(t));
+  const cb = tb.filter((t) => !NAME_SUFFIXES.has(t));
+  if (ca.length > 0 && ca.join(" ") === cb.join(" ")) return 1;
+  if (Math.min(ca.length, cb.length) >= 2 && isTokenSubset(ca, cb)) return 0.9;
+
+  const lastA = ca[ca.length - 1] ?? "";
+  const lastB = cb[cb.length - 1] ?? "";
+  if (lastA.length > 1 && lastA === lastB) {
+    if (ca.length > 1 && cb.length > 1 && ca[0][0] === cb[0][0]) return 0.85;
+    return 0.6;
+  }
+
+  const ja = ca.join("");
+  const jb = cb.join("");
+  if (Math.min(ja.length, jb.length) > 3 && (ja.includes(jb) || jb.includes(ja))) return 0.5;
+  return 0;
+}
+
+/**
+ * How likely a provider's pair of fighter names is this fight, in either
+ * order. The weaker of the two names decides, so one exact name cannot carry
+ * an unrelated opponent.
+ */
+export function boutMatchScore(names: string[], fight: Fight): number {
+  if (names.length < 2) return 0;
+  const [a, b] = names;
+  const straight = Math.min(nameMatchScore(a, fight.fighter1Name), nameMatchScore(b, fight.fighter2Name));
+  const swapped = Math.min(nameMatchScore(a, fight.fighter2Name), nameMatchScore(b, fight.fighter1Name));
+  return Math.max(straight, swapped);
+}
+
+/** A provider's winner resolved to one side of our fight. */
+export interface WinnerMatch {
+  name: string;
+  fighterId: number | null;
+  confidence: number;
+}
+
+/** The result of a draw or no contest. */
+export const NO_WINNER: WinnerMatch = { name: "", fighterId: null, confidence: 1 };
+
+export function fightSide(fight: Fight, side: 1 | 2, confidence: number): WinnerMatch {
+  return side === 1
+    ? { name: fight.fighter1Name, fighterId: fight.fighter1Id, confidence }
+    : { name: fight.fighter2Name, fighterId: fight.fighter2Id, confidence };
+}
+
+/**
+ * Our fighter for a provider's winner name, or null when it matches neither
+ * side. A name that fits both sides equally (shared surnames) is returned
+ * with zero confidence so it always goes to review.
+ */
+export function matchFighterName(name: string, fight: Fight): WinnerMatch | null {
+  const score1 = nameMatchScore(name, fight.fighter1Name);
+  const score2 = nameMatchScore(name, fight.fighter2Name);
+  if (score1 === 0 && score2 === 0) return null;
+  if (score1 === score2) return fightSide(fight, 1, 0);
+  return score1 > score2 ? fightSide(fight, 1, score1) : fightSide(fight, 2, score2);
+}
+
+/**
+ * How likely a provider's event is ours. An identical name is enough on its
+ * own; a partial name ("UFC 300" / "UFC 300: Pereira vs. Hill") only counts
+ * near our date, and a date alone is weaker evidence.
+ */
+export function eventMatchScore(providerEvent: { name: string; date: string | Date }, event: Event): number {
+  const days = Math.abs(new Date(providerEvent.date).getTime() - new Date(event.eventDate).getTime()) / (24 * 60 * 60 * 1000);
+  const theirs = nameTokens(providerEvent.name, true);
+  let best = 0;
+  for (const ours of [event.name, event.shortName ?? ""].map((n) => nameTokens(n, true))) {
+    if (ours.length === 0) continue;
+    if (ours.join(" ") === theirs.join(" ")) best = Math.max(best, 1);
+    else if (days <= 2 && isTokenSubset(ours, theirs)) best = Math.max(best, 0.95);
+  }
+  if (days <= 1) best = Math.max(best, 0.9);
+  else if (days <= 2) best = Math.max(best, 0.75);
+  return best;
+}
+
+/** Overall confidence of a result: the event match scaled by the weakest name match. */
+export function matchConfidence(eventScore: number, boutScore: number, winnerScore = 1): number {
+  return Math.round(eventScore * Math.min(boutScore, winnerScore) * 100) / 100;
+}
@@ -0,0 +1,154 @@
+/**
+ * FightCred — Result Replays
+ *
+ * A replay card is a directory of recorded ESPN responses (scoreboard.json and
+ * any summary-{id}.json, recorded with ESPN_FIXTURE_DIR=<dir>
+ * ESPN_FIXTURE_MODE=record) plus a card.json describing our side of the card
+ * and what resolving it must produce:
+ *   {
+ *     "event": { "name": "UFC 300", "eventDate": "2024-04-13T22:00:00Z" },
+ *     "drawPolicy": "void",
+ *     "fights": [{ "fighter1Name": "Alex Pereira", "fighter2Name": "Jamahal Hill", "odds1": -130, "odds2": 110 }],
+ *     "predictions": [{ "user": "alice", "fight": 0, "pickedWinner": "Alex Pereira", "pickedFinishType": "finish" }],
+ *     "expected": {
+ *       "fights": [{ "fight": 0, "status": "completed", "winner": "Alex Pereira", "method": "tko_ko", "round": 1 }],
+ *       "predictions": [{ "user": "alice", "fight": 0, "status": "correct", "totalPoints": 15 }],
+ *       "profiles": [{ "user": "alice", "totalPicks": 1, "correctPicks": 1 }]
+ *     }
+ *   }
+ * Fights are referenced by their index in "fights"; expectations list only
+ * the fields to check. drawPolicy overrides DRAW_POLICY for the replay.
+ *
+ * replayCard() seeds the card and its picks with fresh users, runs
+ * pollFightResults with ESPN served from the recorded files and returns every
+ * expectation that did not hold. Used by scripts/replay-results.ts and the
+ * replay test suite; only ever point it at a scratch database, since the
+ * poller resolves every pending fight it finds.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import * as db from "../db";
+import { ENV } from "../_core/env";
+import { pollFightResults } from "../result-poller";
+
+const fieldValue = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const replayCardSchema = z.object({
+  event: z.object({ name: z.string(), shortName: z.string().optional(), eventDate: z.string() }),
+  drawPolicy: z.enum(["void", "wrong"]).optional(),
+  fights: z.array(z.object({
+    fighter1Name: z.string(),
+    fighter2Name: z.string(),
+    odds1: z.number().int().optional(),
+    odds2: z.number().int().optional(),
+  })).min(1),
+  predictions: z.array(z.object({
+    user: z.string(),
+    fight: z.number().int(),
+    pickedWinner: z.string(),
+    pickedFinishType: z.enum(["finish", "decision"]).optional(),
+    pickedMethod: z.enum(["tko_ko", "submission"]).optional(),
+    oddsAtPrediction: z.number().int().optional(),
+  })).default([]),
+  expected: z.object({
+    fights: z.array(z.object({ fight: z.number().int() }).catchall(fieldValue)).default([]),
+    predictions: z.array(z.object({ user: z.string(), fight: z.number().int() }).catchall(fieldValue)).default([]),
+    profiles: z.array(z.object({ user: z.string() }).catchall(fieldValue)).default([]),
+  }).default({ fights: [], predictions: [], profiles: [] }),
+});
+
+export type ReplayCard = z.infer<typeof replayCardSchema>;
+
+export interface ReplayOutcome {
+  poll: Awaited<ReturnType<typeof pollFightResults>>;
+  checks: number;
+  mismatches: string[];
+}
+
+export async function loadReplayCard(dir: string): Promise<ReplayCard> {
+  return replayCardSchema.parse(JSON.parse(await fs.readFile(path.join(dir, "card.json"), "utf8")));
+}
+
+/** Serve ESPN from the card's recorded responses, with no other providers. */
+export function useRecordedResults(dir: string, card: ReplayCard) {
+  ENV.espnFixtureDir = dir;
+  ENV.espnFixtureMode = "replay";
+  ENV.resultsProviders = ["espn"];
+  if (card.drawPolicy) ENV.drawPolicy = card.drawPolicy;
+}
+
+async function seed(card: ReplayCard, runTag: string) {
+  const eventDate = new Date(card.event.eventDate);
+  const eventId = await db.upsertEvent({ name: card.event.name, shortName: card.event.shortName, eventDate, status: "live" });
+
+  const fights = [];
+  for (const fight of card.fights) {
+    const fightId = await db.createFight({ ...fight, eventId, status: "live", scheduledStartTime: eventDate });
+    const created = await db.getFightById(fightId);
+    if (!created) throw new Error(`Could not create fight ${fight.fighter1Name} vs ${fight.fighter2Name}`);
+    fights.push(created);
+  }
+
+  const userIds = new Map<string, number>();
+  for (const name of new Set(card.predictions.map((p) => p.user))) {
+    const openId = `replay-${runTag}-${name}`;
+    await db.upsertUser({ openId, name });
+    const user = await db.getUserByOpenId(openId);
+    if (!user) throw new Error(`Could not create user ${name}`);
+    await db.createUserProfile({ userId: user.id, username: `${name}_${runTag}`.slice(0, 64), displayName: name });
+    userIds.set(name, user.id);
+  }
+
+  for (const { user, fight: index, ...pick } of card.predictions) {
+    const fight = fights[index];
+    if (!fight) throw new Error(`Prediction for ${user} references unknown fight ${index}`);
+    // As predictions.submit records it: the picked side's fighter id alongside the name
+    const pickedWinnerId = pick.pickedWinner === fight.fighter1Name ? fight.fighter1Id
+      : pick.pickedWinner === fight.fighter2Name ? fight.fighter2Id
+      : null;
+    await db.upsertPrediction(userIds.get(user)!, fight.id, { ...pick, pickedWinnerId });
+  }
+
+  return { fightIds: fights.map((f) => f.id), userIds };
+}
+
+function compare(label: string, actual: Record<string, unknown> | null | undefined, expected: Record<string, unknown>, mismatches: string[]) {
+  if (!actual) {
+    mismatches.push(`${label}: not found`);
+    return;
+  }
+  for (const [field, value] of Object.entries(expected)) {
+    if (actual[field] !== value) {
+      mismatches.push(`${label}.${field}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actual[field])}`);
+    }
+  }
+}
+
+/** Seed a card, poll it against its recorded ESPN responses and check every expectation. */
+export async function replayCard(dir: string, card: ReplayCard, runTag = Date.now().toString(36)): Promise<ReplayOutcome> {
+  useRecordedResults(dir, card);
+  const { fightIds, userIds } = await seed(card, runTag);
+  console.log(`[Replay] Seeded ${card.event.name}: ${fightIds.length} fights, ${card.predictions.length} picks (run ${runTag})`);
+
+  const poll = await pollFightResults();
+  console.log(`[Replay] Poll: ${poll.resolved} resolved, ${poll.held} held for review, ${poll.errors.length} errors`);
+
+  const mismatches: string[] = [];
+  for (const { fight, ...fields } of card.expected.fights) {
+    compare(`fights[${fight}]`, await db.getFightById(fightIds[fight]), fields, mismatches);
+  }
+  for (const { user, fight, ...fields } of card.expected.predictions) {
+    const userId = userIds.get(user);
+    const prediction = userId !== undefined ? await db.getPredictionByUserAndFight(userId, fightIds[fight]) : null;
+    compare(`predictions[${user}, ${fight}]`, prediction, fields, mismatches);
+  }
+  for (const { user, ...fields } of card.expected.profiles) {
+    const userId = userIds.get(user);
+    compare(`profiles[${user}]`, userId !== undefined ? await db.getUserProfile(userId) : null, fields, mismatches);
+  }
+
+  const checks = card.expected.fights.length + card.expected.predictions.length + card.expected.profiles.length;
+  return { poll, checks, mismatches };
+}
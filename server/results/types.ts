@@ -0,0 +1,53 @@
+/**
+ * FightCred — Results Provider Contract
+ *
+ * A results provider is one source of official fight outcomes (ESPN, the UFC
+ * live feed, admin-entered results, ...). The result poller asks every
+ * configured provider about the same pending fights and cross-checks their
+ * answers before anything is resolved (see result-poller.ts).
+ */
+
+import type { DecisionType, Event, Fight, Fighter, MethodType } from "../../shared/types";
+
+/** An event with the fights on it that still need a result. */
+export interface PendingCard {
+  event: Event;
+  fights: Fight[];
+  /** The fighters on those fights by id, with their external ids for matching. */
+  fighters: Map<number, Fighter>;
+}
+
+/** A final outcome one provider reports for one of our fights. */
+export interface ProviderFightResult {
+  provider: string;
+  fightId: number;
+  status: "completed" | "cancelled";
+  /** Our fighter name (fighter1Name/fighter2Name) of the winner; "" for draws and no contests. */
+  winner: string;
+  /** Our fighter id of the winner; null for draws, no contests and fights without fighter ids. */
+  winnerId: number | null;
+  method: MethodType;
+  /** The provider's own wording of the method, before normalization. */
+  methodText: string;
+  /** Round and clock time the fight ended, when the provider reports them. */
+  round?: number;
+  fightTime?: string;
+  decisionType?: DecisionType;
+  referee?: string;
+  /**
+   * How sure the provider is that this is our fight and our winner, 0-1 (see
+   * matching.ts). Results below RESULT_CONFIDENCE_THRESHOLD go to review.
+   */
+  confidence: number;
+  /** The provider's source data for the bout, kept on review entries. */
+  raw: unknown;
+}
+
+export interface ResultsProvider {
+  name: string;
+  /**
+   * Final results for any of the given fights this source knows about.
+   * Fights still scheduled or in progress are simply left out.
+   */
+  fetchResults(cards: PendingCard[]): Promise<ProviderFightResult[]>;
+}
@@ -0,0 +1,142 @@
+/**
+ * UFC live-feed results provider.
+ *
+ * UFC.com publishes a public JSON feed per event, keyed by the UFC event id we
+ * store in events.ufcEventId:
+ *   {UFC_LIVE_FEED_URL}/{ufcEventId}.json
+ * Events without a ufcEventId are skipped.
+ */
+
+import axios from "axios";
+import { ENV } from "../_core/env";
+import { boutMatchScore, matchConfidence, matchFighterName, NO_WINNER, normalizeMethod, parseDecisionType, type WinnerMatch } from "./matching";
+import type { PendingCard, ProviderFightResult, ResultsProvider } from "./types";
+import type { Fight } from "../../shared/types";
+
+// ─── UFC Feed Types ───────────────────────────────────────────────────────────
+
+interface UFCFighter {
+  FighterId: number;
+  Name: { FirstName: string; LastName: string };
+  Outcome?: { Outcome: string | null } | null;
+}
+
+interface UFCFight {
+  FightId: number;
+  Status: string; // "Upcoming" | "Live" | "Final" | "Cancelled"
+  Fighters: UFCFighter[];
+  Result?: {
+    Method: string | null;
+    EndingRound: number | null;
+    EndingTime: string | null;
+  } | null;
+  Referee?: { FirstName: string; LastName: string } | null;
+}
+
+interface UFCLiveEvent {
+  LiveEventDetail: {
+    EventId: number;
+    Name: string;
+    Status: string;
+    FightCard: UFCFight[];
+  };
+}
+
+// ─── Fetch ────────────────────────────────────────────────────────────────────
+
+async function fetchUFCLiveEvent(ufcEventId: string): Promise<UFCLiveEvent | null> {
+  try {
+    const res = await axios.get(`${ENV.ufcLiveFeedUrl}/${encodeURIComponent(ufcEventId)}.json`, { timeout: 10000 });
+    return res.data as UFCLiveEvent;
+  } catch (e) {
+    console.warn(`[ResultPoller] UFC live feed fetch failed for event ${ufcEventId}:`, e);
+    return null;
+  }
+}
+
+// ─── Provider ─────────────────────────────────────────────────────────────────
+
+function fullName(fighter: UFCFighter) {
+  return `${fighter.Name.FirstName} ${fighter.Name.LastName}`.trim();
+}
+
+// Bouts are looked up under our own ufcEventId, so the event itself is certain
+function toResult(bout: UFCFight, fight: Fight, boutScore: number): ProviderFightResult | null {
+  if (bout.Status === "Cancelled") {
+    return {
+      provider: "ufc",
+      fightId: fight.id,
+      status: "cancelled",
+      winner: "",
+      winnerId: null,
+      method: "nc",
+      methodText: "Cancelled",
+      confidence: matchConfidence(1, boutScore),
+      raw: bout,
+    };
+  }
+  if (bout.Status !== "Final") return null;
+
+  const outcomes = bout.Fighters.map((f) => (f.Outcome?.Outcome ?? "").toLowerCase());
+  const methodText = bout.Result?.Method ?? "";
+  let winner: WinnerMatch | null = null;
+  let method = normalizeMethod(methodText);
+
+  const winnerIndex = outcomes.indexOf("win");
+  if (winnerIndex >= 0) {
+    winner = matchFighterName(fullName(bout.Fighters[winnerIndex]), fight);
+  } else if (outcomes.includes("draw")) {
+    winner = NO_WINNER;
+    method = "draw";
+  } else if (outcomes.some((o) => o === "nc" || o === "no contest")) {
+    winner = NO_WINNER;
+    method = "nc";
+  }
+  if (winner == null) return null;
+
+  return {
+    provider: "ufc",
+    fightId: fight.id,
+    status: "completed",
+    winner: winner.name,
+    winnerId: winner.fighterId,
+    method,
+    methodText: methodText || method,
+    round: bout.Result?.EndingRound ?? undefined,
+    fightTime: bout.Result?.EndingTime ?? undefined,
+    decisionType: method === "decision" || method === "draw" ? parseDecisionType(methodText) : undefined,
+    referee: bout.Referee ? `${bout.Referee.FirstName} ${bout.Referee.LastName}`.trim() || undefined : undefined,
+    confidence: matchConfidence(1, boutScore, winner.confidence),
+    raw: bout,
+  };
+}
+
+export const ufcProvider: ResultsProvider = {
+  name: "ufc",
+  async fetchResults(cards: PendingCard[]) {
+    const results: ProviderFightResult[] = [];
+
+    for (const { event, fights } of cards) {
+      if (!event.ufcEventId) continue;
+      const feed = await fetchUFCLiveEvent(event.ufcEventId);
+      if (!feed?.LiveEventDetail) continue;
+
+      for (const fight of fights) {
+        let bout: UFCFight | null = null;
+        let boutScore = 0;
+        for (const candidate of feed.LiveEventDetail.FightCard) {
+          const score = boutMatchScore(candidate.Fighters.map(fullName), fight);
+          if (score > boutScore) {
+            bout = candidate;
+            boutScore = score;
+          }
+        }
+        if (!bout) continue;
+        const result = toResult(bout, fight, boutScore);
+        if (result) results.push(result);
+      }
+    }
+
+    return results;
+  },
+};
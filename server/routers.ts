@@ -4,46 +4,28 @@ import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import * as db from "./db";
-import { calculateCredibility, getTierFromScore } from "../shared/types";
-import { pollFightResults } from "./result-poller";
+import { cancelFight, correctFightResult, resolveFightResult } from "./fight-resolution";
+import { runRecurringJobNow } from "./job-queue";
+import { manualResultSchema } from "./results/manual";
+import { approveResultReview, editResultReview, rejectResultReview } from "./result-reviews";
+import { rebuildProfiles } from "./profile-rebuild";
+import {
+  activateScoringRules,
+  dryRunScoringRules,
+  listScoringRuleVersions,
+  publishScoringRules,
+  rescoreAllUsers,
+  scoringRulesSchema,
+} from "./scoring-rules";
+import { createSeason, finalizeSeason, getSeasonLeaderboard } from "./seasons";
+import { rebuildLeaderboardRanks, refreshGlobalRanks } from "./leaderboard-ranks";
+import { isFightOpenForPicks, lockFight, startEvent } from "./fight-locks";
+import { queueFighterSyncForFight, syncFighterProfiles } from "./fighter-sync";
+import { getFighterCommunityStats, getFighterFightHistory, getFighterProfileView, getFighterTopPredictors } from "./fighter-pages";
+import { fetchMMAOdds, getOddsApiQuota } from "./odds/api";
+import { getLastOddsSyncReport } from "./odds/sync";
+import { auditPredictionOdds, currentOddsSnapshotId, getFightOddsHistory } from "./odds/history";
 import { ENV } from "./_core/env";
-import axios from "axios";
-
-// ─── Odds API Helper ──────────────────────────────────────────────────────────
-
-const ODDS_API_KEY = process.env.ODDS_API_KEY ?? "";
-const ODDS_API_BASE = "https://api.the-odds-api.com/v4";
-
-async function fetchMMAOdds() {
-  if (!ODDS_API_KEY) return [];
-  try {
-    const res = await axios.get(`${ODDS_API_BASE}/sports/mma_mixed_martial_arts/odds`, {
-      params: {
-        apiKey: ODDS_API_KEY,
-        regions: "us",
-        oddsFormat: "american",
-        markets: "h2h",
-      },
-      timeout: 8000,
-    });
-    return res.data as Array<{
-      id: string;
-      commence_time: string;
-      home_team: string;
-      away_team: string;
-      bookmakers: Array<{
-        key: string;
-        markets: Array<{
-          key: string;
-          outcomes: Array<{ name: string; price: number }>;
-        }>;
-      }>;
-    }>;
-  } catch (e) {
-    console.warn("[OddsAPI] Failed to fetch:", e);
-    return [];
-  }
-}
 
 // ─── Router ───────────────────────────────────────────────────────────────────
 
@@ -85,11 +67,14 @@ export const appRouter = router({
           });
           return existing.id;
         }
-        return db.createUserProfile({
+        const profileId = await db.createUserProfile({
           userId: ctx.user.id,
           username: input.username,
           displayName: input.displayName ?? input.username,
         });
+        // New profiles join the global leaderboards straight away
+        await refreshGlobalRanks([ctx.user.id]);
+        return profileId;
       }),
 
     update: protectedProcedure
@@ -123,6 +108,19 @@ export const appRouter = router({
       .query(async ({ input }) => {
         return db.getProfileByUsername(input.username);
       }),
+
+    seasonHistory: publicProcedure
+      .input(z.object({ userId: z.number() }))
+      .query(async ({ input }) => {
+        return db.getUserSeasonHistory(input.userId);
+      }),
+
+    // Average closing line value: whether the user's prices beat the line at lock
+    closingLineValue: publicProcedure
+      .input(z.object({ userId: z.number() }))
+      .query(async ({ input }) => {
+        return db.getUserClosingLineValue(input.userId);
+      }),
   }),
 
   // ── Events ────────────────────────────────────────────────────────────────
@@ -205,6 +203,13 @@ export const appRouter = router({
         return db.getFightById(input.id);
       }),
 
+    // Opening, closing and current lines plus the snapshot time series
+    oddsHistory: publicProcedure
+      .input(z.object({ fightId: z.number(), includeBookmakers: z.boolean().default(false) }))
+      .query(async ({ input }) => {
+        return getFightOddsHistory(input.fightId, input.includeBookmakers);
+      }),
+
     create: protectedProcedure
       .input(z.object({
         eventId: z.number(),
@@ -222,10 +227,12 @@ export const appRouter = router({
       }))
       .mutation(async ({ ctx, input }) => {
         if (ctx.user.role !== "admin") throw new Error("Admin only");
-        return db.createFight({
+        const fightId = await db.createFight({
           ...input,
           scheduledStartTime: input.scheduledStartTime ? new Date(input.scheduledStartTime) : undefined,
         });
+        await queueFighterSyncForFight(fightId);
+        return fightId;
       }),
 
     resolve: protectedProcedure
@@ -236,120 +243,65 @@ export const appRouter = router({
         method: z.enum(["tko_ko", "submission", "decision", "draw", "nc"]),
         round: z.number().optional(),
         fightTime: z.string().optional(),
+        methodDetail: z.string().max(128).optional(),
+        decisionType: z.enum(["unanimous", "split", "majority"]).optional(),
+        referee: z.string().max(128).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
         if (ctx.user.role !== "admin") throw new Error("Admin only");
 
-        await db.resolveFight(input.fightId, input.winner, input.finishType, input.method, input.round, input.fightTime);
-
-        const fight = await db.getFightById(input.fightId);
-        if (!fight) throw new Error("Fight not found");
-
-        const allPredictions = await db.getPredictionsForFight(input.fightId);
-
-        for (const pred of allPredictions) {
-          const pickedFighter1 = pred.pickedWinner === fight.fighter1Name;
-          const pickedOdds = pickedFighter1 ? fight.odds1 : fight.odds2;
-
-          const breakdown = calculateCredibility(
-            { pickedWinner: pred.pickedWinner, pickedFinishType: pred.pickedFinishType, pickedMethod: pred.pickedMethod },
-            { winner: input.winner, finishType: input.finishType, method: input.method },
-            pickedOdds ?? null,
-          );
-
-          const correctWinner = pred.pickedWinner === input.winner;
-          const correctFinish = pred.pickedFinishType === input.finishType;
-          const correctMethod =
-            input.finishType === "finish" &&
-            pred.pickedFinishType === "finish" &&
-            pred.pickedMethod != null &&
-            ((input.method === "tko_ko" && pred.pickedMethod === "tko_ko") ||
-              (input.method === "submission" && pred.pickedMethod === "submission"));
-
-          let status: "correct" | "wrong" | "partial" = "wrong";
-          if (correctWinner && correctFinish && (input.finishType === "decision" || correctMethod)) {
-            status = "correct";
-          } else if (correctWinner || correctFinish) {
-            status = "partial";
-          }
-
-          const drizzleDb = await db.getDb();
-          if (drizzleDb) {
-            const { predictions: predsTable } = await import("../drizzle/schema");
-            const { eq } = await import("drizzle-orm");
-            await drizzleDb.update(predsTable).set({
-              status,
-              winnerPoints: breakdown.winnerPoints,
-              finishTypePoints: breakdown.finishTypePoints,
-              methodPoints: breakdown.methodPoints,
-              bonusPoints: breakdown.underdogBonus + breakdown.perfectPickBonus,
-              totalPoints: breakdown.totalPoints,
-            }).where(eq(predsTable.id, pred.id));
-          }
-
-          await db.insertCredibilityLog({
-            userId: pred.userId,
-            fightId: input.fightId,
-            predictionId: pred.id,
-            winnerPoints: breakdown.winnerPoints,
-            finishTypePoints: breakdown.finishTypePoints,
-            methodPoints: breakdown.methodPoints,
-            bonusPoints: breakdown.underdogBonus + breakdown.perfectPickBonus,
-            totalPoints: breakdown.totalPoints,
-            breakdown: JSON.stringify(breakdown),
-          });
-
-          const profile = await db.getUserProfile(pred.userId);
-          if (profile) {
-            const isUnderdog = pickedOdds != null && pickedOdds >= 150;
-            const newStreak = correctWinner ? profile.currentStreak + 1 : 0;
-
-            // Update counters (score will be recalculated below)
-            await db.updateUserProfile(pred.userId, {
-              totalPicks: profile.totalPicks + 1,
-              correctPicks: profile.correctPicks + (correctWinner ? 1 : 0),
-              correctFinishPicks: profile.correctFinishPicks + (correctFinish ? 1 : 0),
-              totalFinishPicks: profile.totalFinishPicks + (pred.pickedFinishType != null ? 1 : 0),
-              correctMethodPicks: profile.correctMethodPicks + (correctMethod ? 1 : 0),
-              totalMethodPicks: profile.totalMethodPicks + (pred.pickedMethod != null ? 1 : 0),
-              correctUnderdogPicks: profile.correctUnderdogPicks + (isUnderdog && correctWinner ? 1 : 0),
-              totalUnderdogPicks: profile.totalUnderdogPicks + (isUnderdog ? 1 : 0),
-              currentStreak: newStreak,
-              bestStreak: Math.max(profile.bestStreak, newStreak),
-            });
-
-            await db.upsertFighterStat(pred.userId, pred.pickedWinner, correctWinner);
-          }
-        }
-
-        // Recalculate normalized 0-100 score for each affected user
-        const affectedUserIds = [...new Set(allPredictions.map((p) => p.userId))];
-        for (const userId of affectedUserIds) {
-          const normalizedScore = await db.recalcNormalizedScoreForUser(userId);
-          const profile = await db.getUserProfile(userId);
-          if (profile) {
-            await db.updateUserProfile(userId, { tier: getTierFromScore(normalizedScore) });
-          }
-        }
-
-        return { success: true, predictionsResolved: allPredictions.length };
+        const report = await resolveFightResult(input);
+        return { success: true, predictionsResolved: report.predictionsScored, report };
       }),
 
     lock: protectedProcedure
       .input(z.object({ fightId: z.number() }))
       .mutation(async ({ ctx, input }) => {
         if (ctx.user.role !== "admin") throw new Error("Admin only");
-        await db.lockPredictionsForFight(input.fightId);
-        const drizzleDb = await db.getDb();
-        if (drizzleDb) {
-          const { fights: fightsTable } = await import("../drizzle/schema");
-          const { eq } = await import("drizzle-orm");
-          await drizzleDb.update(fightsTable).set({ status: "live" }).where(eq(fightsTable.id, input.fightId));
-        }
+        await lockFight(input.fightId);
         return { success: true };
       }),
   }),
 
+  // ── Fighters ──────────────────────────────────────────────────────────────
+  fighters: router({
+    search: publicProcedure
+      .input(z.object({ query: z.string().min(2), limit: z.number().min(1).max(50).default(20) }))
+      .query(async ({ input }) => {
+        return db.searchFighters(input.query, input.limit);
+      }),
+
+    profile: publicProcedure
+      .input(z.object({ fighterId: z.number() }))
+      .query(async ({ input }) => {
+        return getFighterProfileView(input.fighterId);
+      }),
+
+    // Every FightCred fight they were on, with the result and how users picked it
+    fights: publicProcedure
+      .input(z.object({ fighterId: z.number() }))
+      .query(async ({ input }) => {
+        return getFighterFightHistory(input.fighterId);
+      }),
+
+    communityStats: publicProcedure
+      .input(z.object({ fighterId: z.number() }))
+      .query(async ({ input }) => {
+        return getFighterCommunityStats(input.fighterId);
+      }),
+
+    // Users most accurate on this fighter's bouts
+    topPredictors: publicProcedure
+      .input(z.object({
+        fighterId: z.number(),
+        minPicks: z.number().int().min(1).default(2),
+        limit: z.number().min(1).max(50).default(10),
+      }))
+      .query(async ({ input }) => {
+        return getFighterTopPredictors(input.fighterId, input.minPicks, input.limit);
+      }),
+  }),
+
   // ── Predictions ───────────────────────────────────────────────────────────
   predictions: router({
     myPredictions: protectedProcedure.query(async ({ ctx }) => {
@@ -375,15 +327,25 @@ export const appRouter = router({
         if (fight.status === "live" || fight.status === "completed") {
           throw new Error("Cannot predict — fight has already started");
         }
+        if (fight.status === "cancelled") throw new Error("Cannot predict — fight was cancelled");
+        // Covers the window before the lock scheduler's next sweep reaches this fight
+        const event = await db.getEventById(fight.eventId);
+        if (!event || !isFightOpenForPicks(fight, event)) throw new Error("Cannot predict — predictions are locked for this fight");
 
         const pickedFighter1 = input.pickedWinner === fight.fighter1Name;
+        if (!pickedFighter1 && input.pickedWinner !== fight.fighter2Name) {
+          throw new Error("Pick one of the fighters on this fight");
+        }
         const oddsAtPrediction = pickedFighter1 ? fight.odds1 : fight.odds2;
 
         return db.upsertPrediction(ctx.user.id, input.fightId, {
           pickedWinner: input.pickedWinner,
+          pickedWinnerId: pickedFighter1 ? fight.fighter1Id : fight.fighter2Id,
           pickedFinishType: input.pickedFinishType,
           pickedMethod: input.pickedMethod,
           oddsAtPrediction: oddsAtPrediction ?? undefined,
+          opponentOddsAtPrediction: (pickedFighter1 ? fight.odds2 : fight.odds1) ?? undefined,
+          oddsSnapshotId: oddsAtPrediction != null ? await currentOddsSnapshotId(fight) : null,
         });
       }),
   }),
@@ -391,20 +353,96 @@ export const appRouter = router({
   // ── Leaderboard ───────────────────────────────────────────────────────────
   leaderboard: router({
     global: publicProcedure
-      .input(z.object({ limit: z.number().default(50) }))
+      .input(z.object({
+        limit: z.number().default(50),
+        // "recent" ranks on the recency-weighted score instead of the all-time score
+        mode: z.enum(["allTime", "recent"]).default("allTime"),
+      }))
       .query(async ({ input }) => {
-        return db.getLeaderboard(input.limit);
+        return db.getLeaderboard(input.limit, input.mode);
+      }),
+    // Cursor-paginated global leaderboard with optional username prefix search
+    globalPaged: publicProcedure
+      .input(z.object({
+        mode: z.enum(["allTime", "recent"]).default("allTime"),
+        limit: z.number().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+        search: z.string().max(32).optional(),
+      }))
+      .query(async ({ input }) => {
+        return db.getLeaderboardPage(input);
+      }),
+    // The caller's rank and the users immediately above and below them
+    myRank: protectedProcedure
+      .input(z.object({
+        mode: z.enum(["allTime", "recent"]).default("allTime"),
+        neighbors: z.number().min(0).max(25).default(3),
+      }))
+      .query(async ({ ctx, input }) => {
+        return db.getLeaderboardNeighborhood(ctx.user.id, input.mode, input.neighbors);
       }),
     byEvent: publicProcedure
       .input(z.object({ eventId: z.number(), limit: z.number().default(50) }))
       .query(async ({ input }) => {
         return db.getEventLeaderboard(input.eventId, input.limit);
       }),
+    // When the global (or, with an eventId, that event's) leaderboard last changed
+    updatedAt: publicProcedure
+      .input(z.object({
+        mode: z.enum(["allTime", "recent"]).default("allTime"),
+        eventId: z.number().optional(),
+      }))
+      .query(async ({ input }) => {
+        const updatedAt = input.eventId != null
+          ? await db.getRankScopeUpdatedAt("event", input.eventId)
+          : await db.getLeaderboardUpdatedAt(input.mode);
+        return { updatedAt };
+      }),
     eventStats: publicProcedure
       .input(z.object({ eventId: z.number() }))
       .query(async ({ input }) => {
         return db.getEventPredictionStats(input.eventId);
       }),
+    // Standings over a slice of fights — weight class, card section, title fights or one fighter
+    filtered: publicProcedure
+      .input(z.object({
+        weightClass: z.string().optional(),
+        cardSection: z.enum(["main", "prelim", "early_prelim"]).optional(),
+        titleFightsOnly: z.boolean().default(false),
+        fighterName: z.string().optional(),
+        fighterId: z.number().optional(),
+        minPicks: z.number().int().min(1).default(5),
+        sortBy: z.enum(["points", "accuracy"]).default("points"),
+        limit: z.number().min(1).max(100).default(50),
+      }))
+      .query(async ({ input }) => {
+        return db.getFilteredLeaderboard(input);
+      }),
+    // Users ranked by average closing line value
+    closingLineValue: publicProcedure
+      .input(z.object({
+        minPicks: z.number().int().min(1).default(10),
+        limit: z.number().min(1).max(100).default(50),
+      }))
+      .query(async ({ input }) => {
+        return db.getClosingLineValueLeaderboard(input.minPicks, input.limit);
+      }),
+    weightClasses: publicProcedure.query(async () => {
+      return db.getWeightClasses();
+    }),
+    seasons: publicProcedure.query(async () => {
+      return db.getSeasons();
+    }),
+    // Season standings — defaults to the current season
+    season: publicProcedure
+      .input(z.object({
+        seasonId: z.number().optional(),
+        limit: z.number().min(1).max(100).default(50),
+        offset: z.number().min(0).default(0),
+      }))
+      .query(async ({ input }) => {
+        return getSeasonLeaderboard(input.seasonId, input.limit, input.offset);
+      }),
   }),
 
   // ── Odds ──────────────────────────────────────────────────────────────────
@@ -469,103 +507,54 @@ export const appRouter = router({
         method: z.enum(["tko_ko", "submission", "decision", "draw", "nc"]),
         round: z.number().optional(),
         fightTime: z.string().optional(),
+        methodDetail: z.string().max(128).optional(),
+        decisionType: z.enum(["unanimous", "split", "majority"]).optional(),
+        referee: z.string().max(128).optional(),
       }))
       .mutation(async ({ input }) => {
         if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
 
-        await db.resolveFight(input.fightId, input.winner, input.finishType, input.method, input.round, input.fightTime);
-
-        const fight = await db.getFightById(input.fightId);
-        if (!fight) throw new Error("Fight not found");
-
-        const allPredictions = await db.getPredictionsForFight(input.fightId);
-
-        for (const pred of allPredictions) {
-          const pickedFighter1 = pred.pickedWinner === fight.fighter1Name;
-          const pickedOdds = pickedFighter1 ? fight.odds1 : fight.odds2;
-
-          const breakdown = calculateCredibility(
-            { pickedWinner: pred.pickedWinner, pickedFinishType: pred.pickedFinishType, pickedMethod: pred.pickedMethod },
-            { winner: input.winner, finishType: input.finishType, method: input.method },
-            pickedOdds ?? null,
-          );
-
-          const correctWinner = pred.pickedWinner === input.winner;
-          const correctFinish = pred.pickedFinishType === input.finishType;
-          const correctMethod =
-            input.finishType === "finish" &&
-            pred.pickedFinishType === "finish" &&
-            pred.pickedMethod != null &&
-            ((input.method === "tko_ko" && pred.pickedMethod === "tko_ko") ||
-              (input.method === "submission" && pred.pickedMethod === "submission"));
-
-          let status: "correct" | "wrong" | "partial" = "wrong";
-          if (correctWinner && correctFinish && (input.finishType === "decision" || correctMethod)) {
-            status = "correct";
-          } else if (correctWinner || correctFinish) {
-            status = "partial";
-          }
-
-          const drizzleDb = await db.getDb();
-          if (drizzleDb) {
-            const { predictions: predsTable } = await import("../drizzle/schema");
-            const { eq } = await import("drizzle-orm");
-            await drizzleDb.update(predsTable).set({
-              status,
-              winnerPoints: breakdown.winnerPoints,
-              finishTypePoints: breakdown.finishTypePoints,
-              methodPoints: breakdown.methodPoints,
-              bonusPoints: breakdown.underdogBonus + breakdown.perfectPickBonus,
-              totalPoints: breakdown.totalPoints,
-            }).where(eq(predsTable.id, pred.id));
-          }
-
-          await db.insertCredibilityLog({
-            userId: pred.userId,
-            fightId: input.fightId,
-            predictionId: pred.id,
-            winnerPoints: breakdown.winnerPoints,
-            finishTypePoints: breakdown.finishTypePoints,
-            methodPoints: breakdown.methodPoints,
-            bonusPoints: breakdown.underdogBonus + breakdown.perfectPickBonus,
-            totalPoints: breakdown.totalPoints,
-            breakdown: JSON.stringify(breakdown),
-          });
+        const report = await resolveFightResult(input);
+        return { success: true, predictionsResolved: report.predictionsScored, report };
+      }),
 
-          const profile = await db.getUserProfile(pred.userId);
-          if (profile) {
-            const isUnderdog = pickedOdds != null && pickedOdds >= 150;
-            const newStreak = correctWinner ? profile.currentStreak + 1 : 0;
-
-            // Update counters only — normalized score recalculated below
-            await db.updateUserProfile(pred.userId, {
-              totalPicks: profile.totalPicks + 1,
-              correctPicks: profile.correctPicks + (correctWinner ? 1 : 0),
-              correctFinishPicks: profile.correctFinishPicks + (correctFinish ? 1 : 0),
-              totalFinishPicks: profile.totalFinishPicks + (pred.pickedFinishType != null ? 1 : 0),
-              correctMethodPicks: profile.correctMethodPicks + (correctMethod ? 1 : 0),
-              totalMethodPicks: profile.totalMethodPicks + (pred.pickedMethod != null ? 1 : 0),
-              correctUnderdogPicks: profile.correctUnderdogPicks + (isUnderdog && correctWinner ? 1 : 0),
-              totalUnderdogPicks: profile.totalUnderdogPicks + (isUnderdog ? 1 : 0),
-              currentStreak: newStreak,
-              bestStreak: Math.max(profile.bestStreak, newStreak),
-            });
-
-            await db.upsertFighterStat(pred.userId, pred.pickedWinner, correctWinner);
-          }
-        }
+    // Cancel a fight — voids every prediction on it with no score impact
+    cancelFight: publicProcedure
+      .input(z.object({ token: z.string(), fightId: z.number() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const report = await cancelFight(input.fightId);
+        return { success: true, report };
+      }),
 
-        // Recalculate normalized 0-100 score for each affected user
-        const affectedUserIds = [...new Set(allPredictions.map((p) => p.userId))];
-        for (const userId of affectedUserIds) {
-          const normalizedScore = await db.recalcNormalizedScoreForUser(userId);
-          const profile = await db.getUserProfile(userId);
-          if (profile) {
-            await db.updateUserProfile(userId, { tier: getTierFromScore(normalizedScore) });
-          }
-        }
+    // Correct the result of an already-resolved fight (overturned result or mis-entered method)
+    correctResult: publicProcedure
+      .input(z.object({
+        token: z.string(),
+        fightId: z.number(),
+        winner: z.string(),
+        finishType: z.enum(["finish", "decision"]),
+        method: z.enum(["tko_ko", "submission", "decision", "draw", "nc"]),
+        round: z.number().optional(),
+        fightTime: z.string().optional(),
+        methodDetail: z.string().max(128).optional(),
+        decisionType: z.enum(["unanimous", "split", "majority"]).optional(),
+        referee: z.string().max(128).optional(),
+        reason: z.string().max(500).optional(),
+      }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const { token, ...correction } = input;
+        const report = await correctFightResult(correction);
+        return { success: true, report };
+      }),
 
-        return { success: true, predictionsResolved: allPredictions.length };
+    // Audit trail of result corrections, optionally for a single fight
+    resultCorrections: publicProcedure
+      .input(z.object({ token: z.string(), fightId: z.number().optional() }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return db.getResultCorrections(input.fightId);
       }),
 
     // Lock all predictions for a fight
@@ -573,23 +562,186 @@ export const appRouter = router({
       .input(z.object({ token: z.string(), fightId: z.number() }))
       .mutation(async ({ input }) => {
         if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
-        await db.lockPredictionsForFight(input.fightId);
-        const drizzleDb = await db.getDb();
-        if (drizzleDb) {
-          const { fights: fightsTable } = await import("../drizzle/schema");
-          const { eq } = await import("drizzle-orm");
-          await drizzleDb.update(fightsTable).set({ status: "live" }).where(eq(fightsTable.id, input.fightId));
-        }
+        await lockFight(input.fightId);
         return { success: true };
       }),
 
-    // Manually trigger the result poller
+    // Manually trigger the result poller — pulls its next queued run forward
     triggerPoll: publicProcedure
       .input(z.object({ token: z.string() }))
       .mutation(async ({ input }) => {
         if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
-        const result = await pollFightResults();
-        return result;
+        const jobId = await runRecurringJobNow("results.poll");
+        return { queued: true, jobId };
+      }),
+
+    // Last odds sync: how many fights were priced and which could not be matched
+    oddsSyncReport: publicProcedure
+      .input(z.object({ token: z.string() }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return getLastOddsSyncReport();
+      }),
+
+    // The Odds API quota from the latest response headers, cache state and throttling level
+    oddsQuota: publicProcedure
+      .input(z.object({ token: z.string() }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return getOddsApiQuota();
+      }),
+
+    syncOdds: publicProcedure
+      .input(z.object({ token: z.string() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const jobId = await runRecurringJobNow("odds.sync");
+        return { queued: true, jobId };
+      }),
+
+    // Each prediction's oddsAtPrediction checked against the odds snapshot it was priced from
+    auditPredictionOdds: publicProcedure
+      .input(z.object({ token: z.string(), fightId: z.number() }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return auditPredictionOdds(input.fightId);
+      }),
+
+    // Link a fight to an Odds API event by hand (null unlinks it so the sync matches it again)
+    linkFightOdds: publicProcedure
+      .input(z.object({ token: z.string(), fightId: z.number(), oddsApiEventId: z.string().min(1).max(255).nullable() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const fight = await db.getFightById(input.fightId);
+        if (!fight) throw new Error("Fight not found");
+        await db.setFightOddsApiEventId(fight.id, input.oddsApiEventId);
+        return { success: true };
+      }),
+
+    // Feed results to the "manual" results provider; applied on the next poll after cross-checking
+    uploadManualResults: publicProcedure
+      .input(z.object({ token: z.string(), results: z.array(manualResultSchema).min(1).max(200) }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        await db.insertManualResults(input.results.map((r) => ({
+          fightId: r.fightId ?? null,
+          fighter1Name: r.fighter1Name,
+          fighter2Name: r.fighter2Name,
+          status: r.status,
+          winner: r.winner,
+          method: r.method ?? null,
+          methodText: r.methodText ?? null,
+          round: r.round ?? null,
+          fightTime: r.fightTime ?? null,
+          referee: r.referee ?? null,
+        })));
+        return { success: true, uploaded: input.results.length };
+      }),
+
+    // Automatic results held back for review (providers disagreed or low match confidence),
+    // with each provider's raw source data
+    resultReviews: publicProcedure
+      .input(z.object({
+        token: z.string(),
+        status: z.enum(["pending", "approved", "rejected"]).optional(),
+        limit: z.number().min(1).max(200).default(50),
+      }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const reviews = await db.getResultReviews(input.status, input.limit);
+        return reviews.map((review) => ({
+          ...review,
+          providerResults: JSON.parse(review.providerResults),
+          rawPayload: review.rawPayload ? JSON.parse(review.rawPayload) : null,
+        }));
+      }),
+
+    // Apply a queued result as proposed
+    approveResultReview: publicProcedure
+      .input(z.object({ token: z.string(), reviewId: z.number(), note: z.string().max(500).optional() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return approveResultReview(input.reviewId, input.note);
+      }),
+
+    // Apply a corrected result in place of the queued one
+    editResultReview: publicProcedure
+      .input(z.object({
+        token: z.string(),
+        reviewId: z.number(),
+        result: z.discriminatedUnion("status", [
+          z.object({ status: z.literal("cancelled") }),
+          z.object({
+            status: z.literal("completed"),
+            winner: z.string(),
+            finishType: z.enum(["finish", "decision"]),
+            method: z.enum(["tko_ko", "submission", "decision", "draw", "nc"]),
+            round: z.number().optional(),
+            fightTime: z.string().optional(),
+            methodDetail: z.string().max(128).optional(),
+            decisionType: z.enum(["unanimous", "split", "majority"]).optional(),
+            referee: z.string().max(128).optional(),
+          }),
+        ]),
+        note: z.string().max(500).optional(),
+      }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return editResultReview(input.reviewId, input.result, input.note);
+      }),
+
+    // Discard a queued result; the fight goes back to polling
+    rejectResultReview: publicProcedure
+      .input(z.object({ token: z.string(), reviewId: z.number(), note: z.string().max(500).optional() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return rejectResultReview(input.reviewId, input.note);
+      }),
+
+    // Fighters whose profile sync found nothing on UFC.com or errored
+    fighterProfileIssues: publicProcedure
+      .input(z.object({
+        token: z.string(),
+        status: z.enum(["not_found", "failed"]).optional(),
+        limit: z.number().min(1).max(500).default(100),
+      }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return db.getFighterProfileIssues(input.status, input.limit);
+      }),
+
+    // Re-sync specific fighters' profiles now, ignoring staleness
+    syncFighterProfiles: publicProcedure
+      .input(z.object({ token: z.string(), fighterIds: z.array(z.number()).min(1).max(50) }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return syncFighterProfiles(input.fighterIds);
+      }),
+
+    // Background jobs, newest first, with each job's last result or error
+    jobs: publicProcedure
+      .input(z.object({
+        token: z.string(),
+        status: z.enum(["pending", "running", "succeeded", "failed"]).optional(),
+        name: z.string().optional(),
+        limit: z.number().min(1).max(200).default(50),
+      }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return db.getJobs(input);
+      }),
+
+    // Attempt history for one job or one job type
+    jobRuns: publicProcedure
+      .input(z.object({
+        token: z.string(),
+        jobId: z.number().optional(),
+        name: z.string().optional(),
+        limit: z.number().min(1).max(200).default(50),
+      }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return db.getJobRuns(input);
       }),
 
     // Update event status
@@ -601,22 +753,105 @@ export const appRouter = router({
       }))
       .mutation(async ({ input }) => {
         if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
-        await db.upsertEvent({ id: input.eventId, name: "", eventDate: new Date(), status: input.status });
+        // Marking a card live starts it the same way the lock scheduler does
+        if (input.status === "live") await startEvent(input.eventId);
+        else await db.updateEventStatus(input.eventId, input.status);
         return { success: true };
       }),
 
+    // Rebuild profile counters, streaks and fighter stats from prediction history.
+    // Dry run by default; pass apply to write the corrections.
+    rebuildProfiles: publicProcedure
+      .input(z.object({ token: z.string(), apply: z.boolean().default(false), userId: z.number().optional() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const report = await rebuildProfiles({ apply: input.apply, userId: input.userId });
+        // Pick counts shown on the global leaderboards come from the profile counters
+        if (report.applied && report.usersWithDiffs > 0) {
+          await refreshGlobalRanks(report.results.map((r) => r.userId));
+        }
+        return report;
+      }),
+
     // Recalculate normalized 0-100 credibility scores for ALL users
     recalcAllScores: publicProcedure
       .input(z.object({ token: z.string() }))
       .mutation(async ({ input }) => {
         if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
-        const results = await db.recalcAllNormalizedScores();
-        // Update tiers for all users
-        for (const { userId, score } of results) {
-          await db.updateUserProfile(userId, { tier: getTierFromScore(score) });
-        }
+        const results = await rescoreAllUsers();
         return { success: true, updated: results.length, scores: results };
       }),
+
+    // Recompute every materialized leaderboard scope (global, event, season) from scratch
+    rebuildLeaderboardRanks: publicProcedure
+      .input(z.object({ token: z.string() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return rebuildLeaderboardRanks();
+      }),
+
+    // Create a season — either a calendar year or an explicit date range
+    createSeason: publicProcedure
+      .input(z.object({
+        token: z.string(),
+        name: z.string().max(128).optional(),
+        year: z.number().int().optional(),
+        startsAt: z.string().optional(),
+        endsAt: z.string().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const id = await createSeason({
+          name: input.name,
+          year: input.year,
+          startsAt: input.startsAt ? new Date(input.startsAt) : undefined,
+          endsAt: input.endsAt ? new Date(input.endsAt) : undefined,
+        });
+        return { success: true, id };
+      }),
+
+    // Snapshot a finished season's final rankings and tiers
+    finalizeSeason: publicProcedure
+      .input(z.object({ token: z.string(), seasonId: z.number() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const result = await finalizeSeason(input.seasonId);
+        return { success: true, ...result };
+      }),
+
+    // Scoring rule versions — the active version and every published one
+    scoringRules: publicProcedure
+      .input(z.object({ token: z.string() }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return listScoringRuleVersions();
+      }),
+
+    // Publish a new scoring rule version as a draft (no effect until activated)
+    publishScoringRules: publicProcedure
+      .input(z.object({ token: z.string(), rules: scoringRulesSchema, notes: z.string().max(500).optional() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const version = await publishScoringRules(input.rules, input.notes);
+        return { success: true, version };
+      }),
+
+    // Preview how every user's score and tier would change under a rule version
+    dryRunScoringRules: publicProcedure
+      .input(z.object({ token: z.string(), version: z.number() }))
+      .query(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        return dryRunScoringRules(input.version);
+      }),
+
+    // Activate a rule version and rescore all users under it
+    activateScoringRules: publicProcedure
+      .input(z.object({ token: z.string(), version: z.number() }))
+      .mutation(async ({ input }) => {
+        if (!ENV.adminToken || input.token !== ENV.adminToken) throw new Error("Unauthorized");
+        const result = await activateScoringRules(input.version);
+        return { success: true, ...result };
+      }),
   }),
 });
 
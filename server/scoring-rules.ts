@@ -0,0 +1,179 @@
+/**
+ * FightCred — Versioned Scoring Rules
+ *
+ * The constants behind calculateCredibility and calcNormalizedCredScore live
+ * in versioned rule sets (scoring_rule_versions). Version 1 is the built-in
+ * DEFAULT_SCORING_RULES and is in force until another version is activated.
+ *
+ * Lifecycle: publish (draft) → dry run → activate. Activating retires the
+ * previous version and recalculates every user's score and tier under the
+ * new rules. Each credibility_log row records the version that produced it.
+ */
+
+import { z } from "zod";
+import * as db from "./db";
+import { refreshGlobalRanks } from "./leaderboard-ranks";
+import {
+  calcNormalizedCredScore,
+  DEFAULT_SCORING_RULES,
+  getTierFromScore,
+  type CredibilityTier,
+  type ScoringRules,
+} from "../shared/types";
+
+export const DEFAULT_RULE_VERSION = 1;
+const ACTIVE_RULES_CACHE_MS = 60 * 1000;
+
+export const scoringRulesSchema = z.object({
+  baseWinner: z.number().positive(),
+  baseFinish: z.number().min(0),
+  finishMultiplier: z.number().min(0),
+  baseMethod: z.number().min(0),
+  underdogThreshold: z.number(),
+  underdogBonusPer100: z.number().min(0),
+  perfectPickBonus: z.number().min(0),
+  penaltyBands: z.array(z.object({ maxOdds: z.number(), penalty: z.number().min(0) })),
+  underdogPenalty: z.number().min(0),
+  unknownOddsPenalty: z.number().min(0),
+  finishWeight: z.number().min(0),
+  methodWeight: z.number().min(0),
+  volumeMultipliers: z.array(z.object({ minPicks: z.number().int().min(0), multiplier: z.number().min(0).max(1) })).min(1),
+  decayHalfLifeDays: z.number().positive(),
+});
+
+export interface ActiveScoringRules {
+  version: number;
+  rules: ScoringRules;
+}
+
+export interface DryRunUserChange {
+  userId: number;
+  username: string;
+  currentScore: number;
+  newScore: number;
+  currentTier: CredibilityTier;
+  newTier: CredibilityTier;
+}
+
+export interface DryRunReport {
+  version: number;
+  usersEvaluated: number;
+  scoresChanged: number;
+  tierChanges: number;
+  changes: DryRunUserChange[];
+}
+
+// ─── Active rules ─────────────────────────────────────────────────────────────
+
+let _activeCache: { value: ActiveScoringRules; loadedAt: number } | null = null;
+
+function parseRules(json: string): ScoringRules {
+  // Merge over defaults so rule sets published before a field existed still load
+  return { ...DEFAULT_SCORING_RULES, ...scoringRulesSchema.partial().parse(JSON.parse(json)) };
+}
+
+/**
+ * The rule set currently in force. Cached briefly in-process; pass a
+ * transaction to read it consistently inside a resolve.
+ */
+export async function getActiveScoringRules(conn?: db.DbExecutor): Promise<ActiveScoringRules> {
+  if (!conn && _activeCache && Date.now() - _activeCache.loadedAt < ACTIVE_RULES_CACHE_MS) {
+    return _activeCache.value;
+  }
+
+  const row = await db.getActiveScoringRuleVersion(conn);
+  const value: ActiveScoringRules = row
+    ? { version: row.version, rules: parseRules(row.rules) }
+    : { version: DEFAULT_RULE_VERSION, rules: DEFAULT_SCORING_RULES };
+
+  _activeCache = { value, loadedAt: Date.now() };
+  return value;
+}
+
+/** The rules of a specific version; null means rows scored before versioning (version 1). */
+export async function getScoringRulesVersion(version: number | null): Promise<ScoringRules> {
+  if (version == null || version === DEFAULT_RULE_VERSION) return DEFAULT_SCORING_RULES;
+  const row = await db.getScoringRuleVersion(version);
+  if (!row) throw new Error(`Scoring rule version ${version} not found`);
+  return parseRules(row.rules);
+}
+
+// ─── Admin operations ─────────────────────────────────────────────────────────
+
+export async function listScoringRuleVersions() {
+  const [rows, active] = await Promise.all([db.getScoringRuleVersions(), getActiveScoringRules()]);
+  return {
+    activeVersion: active.version,
+    defaultRules: DEFAULT_SCORING_RULES,
+    versions: rows.map((row) => ({ ...row, rules: parseRules(row.rules) })),
+  };
+}
+
+/** Store a new rule set as a draft. It has no effect until activated. */
+export async function publishScoringRules(rules: ScoringRules, notes?: string): Promise<number> {
+  return db.createScoringRuleVersion(JSON.stringify(rules), notes ?? null);
+}
+
+/**
+ * Show how every user's normalized score and tier would change under a rule
+ * version, without writing anything. Only users whose score changes are listed.
+ */
+export async function dryRunScoringRules(version: number): Promise<DryRunReport> {
+  const rules = await getScoringRulesVersion(version);
+  const userIds = await db.getProfileUserIds();
+  const changes: DryRunUserChange[] = [];
+  let tierChanges = 0;
+
+  for (const userId of userIds) {
+    const profile = await db.getUserProfile(userId);
+    if (!profile) continue;
+    const newScore = calcNormalizedCredScore(await db.getNormalizedPickData(userId), rules);
+    if (newScore === profile.credibilityScore) continue;
+    const newTier = getTierFromScore(newScore);
+    if (newTier !== profile.tier) tierChanges++;
+    changes.push({
+      userId,
+      username: profile.username,
+      currentScore: profile.credibilityScore,
+      newScore,
+      currentTier: profile.tier,
+      newTier,
+    });
+  }
+
+  return {
+    version,
+    usersEvaluated: userIds.length,
+    scoresChanged: changes.length,
+    tierChanges,
+    changes,
+  };
+}
+
+/** Put a published version into force and rescore every user under it. */
+export async function activateScoringRules(version: number) {
+  if (version === DEFAULT_RULE_VERSION) {
+    throw new Error("Version 1 is the built-in default — publish it as a new version to reactivate it");
+  }
+  const rules = await getScoringRulesVersion(version);
+
+  await db.activateScoringRuleVersion(version);
+  _activeCache = null;
+
+  const results = await rescoreAllUsers(rules);
+  return { version, usersRescored: results.length };
+}
+
+/**
+ * Recalculate every user's normalized score and tier (defaults to the active
+ * rules) and refresh the global leaderboards. Also run on a schedule so the
+ * recency-weighted score keeps decaying for users who stop picking.
+ */
+export async function rescoreAllUsers(rules?: ScoringRules) {
+  const results = await db.recalcAllNormalizedScores(rules ?? (await getActiveScoringRules()).rules);
+  for (const { userId, score } of results) {
+    await db.updateUserProfile(userId, { tier: getTierFromScore(score) });
+  }
+  await refreshGlobalRanks();
+  return results;
+}
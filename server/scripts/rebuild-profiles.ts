@@ -0,0 +1,40 @@
+/**
+ * Rebuild user profile counters from prediction history.
+ *
+ * Usage:
+ *   pnpm profiles:rebuild              # dry run — report differences only
+ *   pnpm profiles:rebuild --apply      # write the corrected counters
+ *   pnpm profiles:rebuild --user 42    # limit to a single user
+ */
+import "dotenv/config";
+import { rebuildProfiles } from "../profile-rebuild";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const apply = args.includes("--apply");
+  const userFlag = args.indexOf("--user");
+  const userId = userFlag >= 0 ? Number(args[userFlag + 1]) : undefined;
+  if (userId !== undefined && !Number.isInteger(userId)) {
+    throw new Error("--user expects a numeric user id");
+  }
+
+  const report = await rebuildProfiles({ apply, userId });
+
+  for (const result of report.results) {
+    console.log(`[RebuildProfiles] user ${result.userId}`);
+    for (const diff of [...result.profileDiffs, ...result.fighterStatDiffs]) {
+      console.log(`  ${diff.field}: ${diff.stored} → ${diff.expected}`);
+    }
+  }
+  console.log(
+    `[RebuildProfiles] ${report.usersChecked} users checked, ${report.usersWithDiffs} with differences` +
+      (report.applied ? " — corrections written" : " — dry run, pass --apply to write"),
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("[RebuildProfiles] Failed:", err);
+    process.exit(1);
+  });
@@ -0,0 +1,35 @@
+/**
+ * Replay a recorded ESPN card through the result poller against a local
+ * database: seeds the card and its picks, runs pollFightResults with ESPN
+ * served from fixture files, then checks fights, predictions and profile
+ * counters against the card's expectations (see results/replay.ts for the
+ * card format).
+ *
+ * Usage:
+ *   pnpm results:replay <fixture-dir>
+ *
+ * The synthetic cards in tests/fixtures/results/ are replayed by `pnpm test`.
+ *
+ * Use a scratch database: the poller resolves every pending fight it finds.
+ */
+import "dotenv/config";
+import { loadReplayCard, replayCard } from "../results/replay";
+
+async function main() {
+  const dir = process.argv[2];
+  if (!dir) throw new Error("Usage: pnpm results:replay <fixture-dir>");
+  if (process.env.NODE_ENV === "production") throw new Error("Refusing to replay against a production database");
+
+  const { poll, checks, mismatches } = await replayCard(dir, await loadReplayCard(dir));
+  for (const error of poll.errors) console.log(`  ${error}`);
+  for (const mismatch of mismatches) console.log(`  ✗ ${mismatch}`);
+  console.log(`[Replay] ${checks} expectations checked, ${mismatches.length} mismatches`);
+  if (mismatches.length > 0) process.exitCode = 1;
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((err) => {
+    console.error("[Replay] Failed:", err);
+    process.exit(1);
+  });
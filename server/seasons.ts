@@ -0,0 +1,177 @@
+/**
+ * FightCred — Seasons
+ *
+ * A season is a date window (a calendar year or an admin-defined range) with
+ * its own standings built from the credibility_log entries of the fights held
+ * inside it — by when the fight took place, not when it was scored, so late
+ * or corrected results still count toward the fight's own season.
+ * Season tiers start from scratch each season: they come from a normalized
+ * score over that season's picks only, never from the all-time profile tier.
+ *
+ * While a season is open its leaderboard is served from the materialized
+ * "season" ranks (see leaderboard-ranks.ts). Finalizing a season recomputes
+ * the standings from the log and snapshots the final ranks and tiers into
+ * season_standings, which is what past-season leaderboards and profile
+ * season history read from.
+ */
+
+import * as db from "./db";
+import { refreshSeasonRanks } from "./leaderboard-ranks";
+import { getActiveScoringRules } from "./scoring-rules";
+import { calcNormalizedCredScore, getTierFromScore, type CredibilityTier, type Season } from "../shared/types";
+
+export interface SeasonStandingRow {
+  rank: number;
+  userId: number;
+  username: string;
+  displayName: string | null;
+  points: number;
+  totalPicks: number;
+  correctPicks: number;
+  score: number;
+  tier: CredibilityTier;
+}
+
+export interface SeasonLeaderboard {
+  season: Season;
+  finalized: boolean;
+  total: number;
+  /** When the live ranks last changed (the finalize time for finalized seasons). */
+  updatedAt: Date | null;
+  standings: SeasonStandingRow[];
+}
+
+/** Calendar-year season window in UTC. */
+export function calendarYearWindow(year: number) {
+  return {
+    startsAt: new Date(Date.UTC(year, 0, 1, 0, 0, 0)),
+    endsAt: new Date(Date.UTC(year, 11, 31, 23, 59, 59)),
+  };
+}
+
+export async function createSeason(input: { name?: string; year?: number; startsAt?: Date; endsAt?: Date }) {
+  const window = input.year != null
+    ? calendarYearWindow(input.year)
+    : { startsAt: input.startsAt, endsAt: input.endsAt };
+  if (!window.startsAt || !window.endsAt) throw new Error("Provide a year or both startsAt and endsAt");
+  if (window.endsAt <= window.startsAt) throw new Error("Season must end after it starts");
+
+  const name = input.name ?? (input.year != null ? `${input.year} Season` : null);
+  if (!name) throw new Error("Season name is required");
+
+  const id = await db.createSeason({ name, startsAt: window.startsAt, endsAt: window.endsAt });
+  // The window may already hold scored fights; rank them now rather than on the next rebuild
+  const season = await db.getSeasonById(id);
+  if (season) await refreshSeasonRanks(season);
+  return id;
+}
+
+/** Season-only normalized scores for a set of users. */
+async function seasonScores(season: Season, userIds: number[]) {
+  const [{ rules }, pickData] = await Promise.all([getActiveScoringRules(), db.getSeasonPickData(userIds, season)]);
+  return new Map(userIds.map((userId) => [userId, calcNormalizedCredScore(pickData.get(userId) ?? [], rules)]));
+}
+
+/** Compute standings for a season straight from the log, including season-only scores and tiers. */
+async function computeStandings(season: Season) {
+  const { rows } = await db.getSeasonStandingsLive(season);
+  const userIds = rows.map((r) => r.userId);
+  const [scores, profiles] = await Promise.all([seasonScores(season, userIds), db.getProfileSummaries(userIds)]);
+  const profileMap = new Map(profiles.map((p) => [p.userId, p]));
+
+  const standings: SeasonStandingRow[] = rows.map((row, index) => {
+    const score = scores.get(row.userId) ?? 0;
+    return {
+      rank: index + 1,
+      userId: row.userId,
+      username: profileMap.get(row.userId)?.username ?? `user_${row.userId}`,
+      displayName: profileMap.get(row.userId)?.displayName ?? null,
+      points: Number(row.points ?? 0),
+      totalPicks: Number(row.totalPicks ?? 0),
+      correctPicks: Number(row.correctPicks ?? 0),
+      score,
+      tier: getTierFromScore(score),
+    };
+  });
+
+  return { standings };
+}
+
+/**
+ * Standings for a season (the current one when no id is given). Finalized
+ * seasons are served from their snapshot; open seasons are computed live.
+ */
+export async function getSeasonLeaderboard(seasonId: number | undefined, limit = 50, offset = 0): Promise<SeasonLeaderboard | null> {
+  const season = seasonId != null ? await db.getSeasonById(seasonId) : await db.getSeasonAt(new Date());
+  if (!season) return null;
+
+  if (season.finalizedAt) {
+    const { rows, total } = await db.getSeasonSnapshot(season.id, limit, offset);
+    return {
+      season,
+      finalized: true,
+      total,
+      updatedAt: season.finalizedAt,
+      standings: rows.map(({ standing, username, displayName }) => ({
+        rank: standing.rank,
+        userId: standing.userId,
+        username: username ?? `user_${standing.userId}`,
+        displayName: displayName ?? null,
+        points: standing.points,
+        totalPicks: standing.totalPicks,
+        correctPicks: standing.correctPicks,
+        score: standing.score,
+        tier: standing.tier,
+      })),
+    };
+  }
+
+  const { rows, total, updatedAt } = await db.getRankPage("season", season.id, limit, offset);
+  const scores = await seasonScores(season, rows.map((r) => r.rank.userId));
+  return {
+    season,
+    finalized: false,
+    total,
+    updatedAt,
+    standings: rows.map(({ rank: row, username, displayName }) => {
+      const score = scores.get(row.userId) ?? 0;
+      return {
+        rank: row.rank,
+        userId: row.userId,
+        username: username ?? `user_${row.userId}`,
+        displayName: displayName ?? null,
+        points: row.score,
+        totalPicks: row.totalPicks,
+        correctPicks: row.correctPicks,
+        score,
+        tier: getTierFromScore(score),
+      };
+    }),
+  };
+}
+
+/**
+ * Snapshot a season's final rankings and tiers. Can be re-run to refresh the
+ * snapshot (e.g. after a result on one of the season's fights was corrected).
+ */
+export async function finalizeSeason(seasonId: number) {
+  const season = await db.getSeasonById(seasonId);
+  if (!season) throw new Error("Season not found");
+  if (season.endsAt > new Date()) throw new Error("Season has not ended yet");
+
+  const { standings } = await computeStandings(season);
+  await db.saveSeasonStandings(season.id, standings.map((s) => ({
+    seasonId: season.id,
+    userId: s.userId,
+    rank: s.rank,
+    points: s.points,
+    totalPicks: s.totalPicks,
+    correctPicks: s.correctPicks,
+    score: s.score,
+    tier: s.tier,
+  })));
+  // The snapshot now serves this season; its live ranks are no longer needed
+  await db.clearRankScope("season", season.id);
+
+  return { seasonId: season.id, usersRanked: standings.length };
+}
@@ -10,11 +10,22 @@ export * from "./_core/errors";
 
 export type FinishType = "finish" | "decision";
 export type MethodType = "tko_ko" | "submission" | "decision" | "draw" | "nc";
-export type PredictionStatus = "pending" | "correct" | "wrong" | "partial";
+export type DecisionType = "unanimous" | "split" | "majority";
+export type PredictionStatus = "pending" | "correct" | "wrong" | "partial" | "void";
 export type EventStatus = "upcoming" | "live" | "completed";
 export type FightStatus = "upcoming" | "live" | "completed" | "cancelled";
 export type CardSection = "main" | "prelim" | "early_prelim";
 export type CredibilityTier = "rookie" | "contender" | "champion" | "goat";
+// How draws are scored: "void" treats them like a no contest, "wrong" penalises every winner pick
+export type DrawPolicy = "void" | "wrong";
+
+/**
+ * Whether a result voids every pick on the fight (no score impact, no streak break).
+ * No contests always void; draws follow the configured draw policy.
+ */
+export function isVoidingResult(method: MethodType, drawPolicy: DrawPolicy): boolean {
+  return method === "nc" || (method === "draw" && drawPolicy === "void");
+}
 
 export interface CredibilityBreakdown {
   winnerPoints: number;
@@ -27,6 +38,82 @@ export interface CredibilityBreakdown {
   impliedProbability: number;
   // Penalty for wrong picks (negative value)
   penalty: number;
+  // % the price taken beat the closing line by (null without both prices; absent on older entries)
+  closingLineValue?: number | null;
+}
+
+// ─── Scoring Rules ────────────────────────────────────────────────────────────
+
+/**
+ * Tunable constants behind calculateCredibility and calcNormalizedCredScore.
+ * Rule sets are versioned in the scoring_rule_versions table; version 1 is DEFAULT_SCORING_RULES.
+ */
+export interface ScoringRules {
+  baseWinner: number;
+  baseFinish: number;
+  finishMultiplier: number;       // applied to baseFinish when the result was a finish
+  baseMethod: number;
+  underdogThreshold: number;      // American odds at or above this count as an underdog pick
+  underdogBonusPer100: number;    // bonus points per +100 of underdog odds
+  perfectPickBonus: number;
+  // Wrong-pick penalties as a fraction of a base winner pick, by the picked fighter's odds.
+  // Bands are checked in order; the first with odds <= maxOdds applies.
+  penaltyBands: Array<{ maxOdds: number; penalty: number }>;
+  underdogPenalty: number;        // odds above every band
+  unknownOddsPenalty: number;     // no odds recorded
+  // Normalized score weights (fractions of a correct-winner pick)
+  finishWeight: number;
+  methodWeight: number;
+  // Volume confidence multipliers, checked in order; the first with picks >= minPicks applies
+  volumeMultipliers: Array<{ minPicks: number; multiplier: number }>;
+  // Recency-weighted score: a pick this many days old counts half as much as one from today
+  decayHalfLifeDays: number;
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  baseWinner: 100,
+  baseFinish: 50,
+  finishMultiplier: 1.5,
+  baseMethod: 75,
+  underdogThreshold: 150,
+  underdogBonusPer100: 25,
+  perfectPickBonus: 50,
+  penaltyBands: [
+    { maxOdds: -300, penalty: 1.0 },  // picked a massive favourite, they lost — big penalty
+    { maxOdds: -150, penalty: 0.75 }, // clear favourite
+    { maxOdds: -110, penalty: 0.5 },  // slight favourite
+    { maxOdds: 110, penalty: 0.35 },  // pick'em / coin flip
+  ],
+  underdogPenalty: 0.2,               // picked an underdog and they lost — least penalised
+  unknownOddsPenalty: 0.5,            // unknown odds — moderate penalty
+  finishWeight: 0.25,
+  methodWeight: 0.25,
+  volumeMultipliers: [
+    { minPicks: 50, multiplier: 1.0 },
+    { minPicks: 20, multiplier: 0.92 },
+    { minPicks: 10, multiplier: 0.8 },
+    { minPicks: 5, multiplier: 0.65 },
+    { minPicks: 0, multiplier: 0.4 },
+  ],
+  decayHalfLifeDays: 365,
+};
+
+/** Wrong-pick penalty as a positive fraction of a base winner pick. */
+export function getWrongPickPenalty(pickedFighterOdds: number | null, rules: ScoringRules = DEFAULT_SCORING_RULES): number {
+  if (pickedFighterOdds == null) return rules.unknownOddsPenalty;
+  const band = rules.penaltyBands.find((b) => pickedFighterOdds <= b.maxOdds);
+  return band ? band.penalty : rules.underdogPenalty;
+}
+
+export function getVolumeMultiplier(pickCount: number, rules: ScoringRules = DEFAULT_SCORING_RULES): number {
+  const tier = rules.volumeMultipliers.find((v) => pickCount >= v.minPicks);
+  return tier ? tier.multiplier : 0;
+}
+
+/** Weight of a pick resolved at `resolvedAt` in the recency-weighted score (1 = today, 0.5 = one half-life ago). */
+export function getRecencyWeight(resolvedAt: Date, halfLifeDays: number, now: Date = new Date()): number {
+  const ageDays = Math.max(0, (now.getTime() - resolvedAt.getTime()) / (24 * 60 * 60 * 1000));
+  return Math.pow(0.5, ageDays / halfLifeDays);
 }
 
 // ─── Normalized 0-100 Credibility Score ──────────────────────────────────────
@@ -41,6 +128,7 @@ export interface NormalizedPickResult {
 /**
  * Calculate the normalized 0-100 credibility score for a user from all their resolved picks.
  * Rewards upset picks, penalizes wrong picks (especially wrong chalk picks).
+ * Picks may carry a recency `weight` (see getRecencyWeight); unweighted picks count fully.
  */
 export function calcNormalizedCredScore(
   picks: Array<{
@@ -50,18 +138,24 @@ export function calcNormalizedCredScore(
     resultFinishType?: FinishType | null;
     resultMethod?: MethodType | null;
     pickedFighterOdds: number | null;
-  }>
+    // The other side's price at the same time, to take the bookmaker margin out
+    opponentOdds?: number | null;
+    voided?: boolean;
+    weight?: number;
+  }>,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
 ): number {
+  // Voided picks (no contests, cancelled fights) carry no weight either way
+  picks = picks.filter((pick) => !pick.voided);
   if (picks.length === 0) return 0;
 
   let totalValue = 0;
   let totalMaxPossible = 0;
 
   for (const pick of picks) {
-    const impliedProb = pick.pickedFighterOdds != null
-      ? getImpliedProbability(pick.pickedFighterOdds)
-      : 0.5;
+    const impliedProb = getPickProbability(pick.pickedFighterOdds, pick.opponentOdds);
     const oddsWeight = 1 / impliedProb; // higher for underdogs
+    const weight = pick.weight ?? 1;
 
     if (pick.correct) {
       // Base: correct winner
@@ -70,7 +164,7 @@ export function calcNormalizedCredScore(
       // Bonus for correct finish type
       const correctFinish = pick.pickedFinishType != null && pick.pickedFinishType === pick.resultFinishType;
       if (correctFinish) {
-        value += 0.25 * oddsWeight;
+        value += rules.finishWeight * oddsWeight;
       }
 
       // Bonus for correct method (TKO/KO or SUB)
@@ -82,42 +176,22 @@ export function calcNormalizedCredScore(
         ((pick.resultMethod === "tko_ko" && pick.pickedMethod === "tko_ko") ||
           (pick.resultMethod === "submission" && pick.pickedMethod === "submission"));
       if (correctMethod) {
-        value += 0.25 * oddsWeight;
+        value += rules.methodWeight * oddsWeight;
       }
 
-      totalValue += value;
+      totalValue += value * weight;
     } else {
       // Penalty for wrong pick — scaled by how much of a favourite they picked
       // Picking a heavy favourite wrong hurts more than picking an underdog wrong
-      let penalty: number;
-      if (pick.pickedFighterOdds == null) {
-        penalty = -0.5; // unknown odds — moderate penalty
-      } else if (pick.pickedFighterOdds <= -300) {
-        penalty = -1.0; // picked a massive favourite, they lost — big penalty
-      } else if (pick.pickedFighterOdds <= -150) {
-        penalty = -0.75; // clear favourite
-      } else if (pick.pickedFighterOdds <= -110) {
-        penalty = -0.5; // slight favourite
-      } else if (pick.pickedFighterOdds <= 110) {
-        penalty = -0.35; // pick'em / coin flip
-      } else {
-        penalty = -0.2; // picked an underdog and they lost — least penalised
-      }
-      totalValue += penalty;
+      totalValue -= getWrongPickPenalty(pick.pickedFighterOdds, rules) * weight;
     }
 
-    // Max possible for this pick = 1.5 × oddsWeight (correct + finish + method bonus)
-    totalMaxPossible += 1.5 * oddsWeight;
+    // Max possible for this pick = (1 + finish + method weights) × oddsWeight
+    totalMaxPossible += (1 + rules.finishWeight + rules.methodWeight) * oddsWeight * weight;
   }
 
   // Volume confidence multiplier — prevents 1 lucky pick = 100 score
-  const n = picks.length;
-  let volumeMultiplier: number;
-  if (n >= 50)      volumeMultiplier = 1.00;
-  else if (n >= 20) volumeMultiplier = 0.92;
-  else if (n >= 10) volumeMultiplier = 0.80;
-  else if (n >= 5)  volumeMultiplier = 0.65;
-  else              volumeMultiplier = 0.40;
+  const volumeMultiplier = getVolumeMultiplier(picks.length, rules);
 
   // Normalize: totalValue / totalMaxPossible gives a ratio in roughly (-1, 1)
   // Map to 0-100 scale: 0 = all wrong, 50 = break even, 100 = perfect
@@ -156,11 +230,46 @@ export function getTierFromScore(score: number): CredibilityTier {
   return "rookie";
 }
 
-export function formatOdds(odds: number | null | undefined): string {
+// ─── Odds ─────────────────────────────────────────────────────────────────────
+
+// Odds are stored as American prices; the other formats are for display and input
+export type OddsFormat = "american" | "decimal" | "fractional";
+
+export function americanToDecimal(americanOdds: number): number {
+  const decimal = americanOdds > 0 ? 1 + americanOdds / 100 : 1 + 100 / Math.abs(americanOdds);
+  return Math.round(decimal * 100) / 100;
+}
+
+export function decimalToAmerican(decimalOdds: number): number {
+  if (decimalOdds <= 1) throw new Error("Decimal odds must be greater than 1");
+  return decimalOdds >= 2 ? Math.round((decimalOdds - 1) * 100) : -Math.round(100 / (decimalOdds - 1));
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/** Fractional odds in lowest terms, e.g. +150 → "3/2", -110 → "10/11". */
+export function americanToFractional(americanOdds: number): string {
+  const [numerator, denominator] = americanOdds > 0 ? [americanOdds, 100] : [100, Math.abs(americanOdds)];
+  const divisor = gcd(numerator, denominator);
+  return `${numerator / divisor}/${denominator / divisor}`;
+}
+
+export function fractionalToAmerican(fractionalOdds: string): number {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(fractionalOdds);
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) throw new Error(`Invalid fractional odds "${fractionalOdds}"`);
+  return decimalToAmerican(1 + Number(match[1]) / Number(match[2]));
+}
+
+export function formatOdds(odds: number | null | undefined, format: OddsFormat = "american"): string {
   if (odds == null) return "N/A";
+  if (format === "decimal") return americanToDecimal(odds).toFixed(2);
+  if (format === "fractional") return americanToFractional(odds);
   return odds > 0 ? `+${odds}` : `${odds}`;
 }
 
+/** Raw implied probability of an American price — includes the bookmaker's margin. */
 export function getImpliedProbability(americanOdds: number): number {
   if (americanOdds > 0) {
     return 100 / (americanOdds + 100);
@@ -170,37 +279,119 @@ export function getImpliedProbability(americanOdds: number): number {
   }
 }
 
+/** The American price for a win probability (0-1), rounded to a whole number. */
+export function getAmericanOdds(probability: number): number {
+  if (probability >= 0.5) return -Math.round((probability / (1 - probability)) * 100);
+  return Math.round(((1 - probability) / probability) * 100);
+}
+
+/**
+ * Vig-free win probabilities for both sides of a two-way price: each side's
+ * implied probability divided by their sum (the book's overround), so the two
+ * add up to 1.
+ */
+export function getFairProbabilities(odds1: number, odds2: number): [number, number] {
+  const p1 = getImpliedProbability(odds1);
+  const p2 = getImpliedProbability(odds2);
+  return [p1 / (p1 + p2), p2 / (p1 + p2)];
+}
+
+/**
+ * Win probability of the picked fighter for scoring: vig-free when the
+ * opponent's price is known, the raw implied probability when only the pick's
+ * is, and 50% without odds.
+ */
+export function getPickProbability(pickedOdds: number | null, opponentOdds: number | null = null): number {
+  if (pickedOdds == null) return 0.5;
+  return opponentOdds != null ? getFairProbabilities(pickedOdds, opponentOdds)[0] : getImpliedProbability(pickedOdds);
+}
+
+export interface ConsensusOdds {
+  /** Fair (vig-free) American prices. */
+  odds1: number;
+  odds2: number;
+  probability1: number;
+  probability2: number;
+  /** Average bookmaker margin, e.g. 0.045 for a 4.5% overround. */
+  margin: number;
+  bookmakers: number;
+}
+
+/** Vig-free consensus of several bookmakers' two-way prices: their fair probabilities averaged. */
+export function getConsensusOdds(lines: Array<{ odds1: number; odds2: number }>): ConsensusOdds | null {
+  if (lines.length === 0) return null;
+  let probability1 = 0;
+  let margin = 0;
+  for (const line of lines) {
+    probability1 += getFairProbabilities(line.odds1, line.odds2)[0];
+    margin += getImpliedProbability(line.odds1) + getImpliedProbability(line.odds2) - 1;
+  }
+  probability1 /= lines.length;
+  return {
+    odds1: getAmericanOdds(probability1),
+    odds2: getAmericanOdds(1 - probability1),
+    probability1,
+    probability2: 1 - probability1,
+    margin: margin / lines.length,
+    bookmakers: lines.length,
+  };
+}
+
+/**
+ * Closing line value of a pick, in percent: how much better the price taken
+ * was than the line when predictions closed. Positive means the market moved
+ * toward the pick after it was made.
+ */
+export function getClosingLineValue(pickedOdds: number, closingOdds: number): number {
+  return Math.round((getImpliedProbability(closingOdds) / getImpliedProbability(pickedOdds) - 1) * 1000) / 10;
+}
+
+// ─── Credibility Scoring ─────────────────────────────────────────────────────
+
+/**
+ * Whether a pick named the winner — by canonical fighter id when both sides
+ * have one, so a respelled name still matches; otherwise by name.
+ */
+export function isPickedWinner(
+  pick: { pickedWinner: string; pickedWinnerId?: number | null },
+  result: { winner: string | null; winnerId?: number | null },
+): boolean {
+  if (pick.pickedWinnerId != null && result.winnerId != null) return pick.pickedWinnerId === result.winnerId;
+  return pick.pickedWinner === result.winner;
+}
+
 export function calculateCredibility(
   prediction: {
     pickedWinner: string;
+    pickedWinnerId?: number | null;
     pickedFinishType?: FinishType | null;
     pickedMethod?: "tko_ko" | "submission" | null;
   },
   result: {
     winner: string;
+    winnerId?: number | null;
     finishType: FinishType;
     method: MethodType;
   },
   pickedFighterOdds: number | null,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  opponentOdds: number | null = null,
 ): CredibilityBreakdown {
-  const BASE_WINNER = 100;
-  const BASE_FINISH = 50;
-  const BASE_METHOD = 75;
-
-  const correctWinner = prediction.pickedWinner === result.winner;
+  const correctWinner = isPickedWinner(prediction, result);
 
-  const impliedProb = pickedFighterOdds != null ? getImpliedProbability(pickedFighterOdds) : 0.5;
+  // Vig-free when both prices are known, so a favourite's margin does not inflate its probability
+  const impliedProb = getPickProbability(pickedFighterOdds, opponentOdds);
   const multiplier = 1 / impliedProb;
 
-  const winnerPoints = correctWinner ? Math.round(BASE_WINNER * multiplier) : 0;
+  const winnerPoints = correctWinner ? Math.round(rules.baseWinner * multiplier) : 0;
 
   let finishTypePoints = 0;
   const correctFinish = prediction.pickedFinishType === result.finishType;
   // Only award finish/method bonuses if the winner was also correct
   if (correctWinner && correctFinish) {
     finishTypePoints = result.finishType === "finish"
-      ? Math.round(BASE_FINISH * 1.5)
-      : BASE_FINISH;
+      ? Math.round(rules.baseFinish * rules.finishMultiplier)
+      : rules.baseFinish;
   }
 
   let methodPoints = 0;
@@ -212,38 +403,23 @@ export function calculateCredibility(
   ) {
     const resultMethod = result.method === "tko_ko" ? "tko_ko" : result.method === "submission" ? "submission" : null;
     if (resultMethod && prediction.pickedMethod === resultMethod) {
-      methodPoints = BASE_METHOD;
+      methodPoints = rules.baseMethod;
     }
   }
 
   let underdogBonus = 0;
-  if (correctWinner && pickedFighterOdds != null && pickedFighterOdds >= 150) {
-    underdogBonus = Math.round(25 * (pickedFighterOdds / 100));
+  if (correctWinner && pickedFighterOdds != null && pickedFighterOdds >= rules.underdogThreshold) {
+    underdogBonus = Math.round(rules.underdogBonusPer100 * (pickedFighterOdds / 100));
   }
 
   const isPerfect =
     correctWinner &&
     correctFinish &&
     (result.finishType === "decision" || methodPoints > 0);
-  const perfectPickBonus = isPerfect ? 50 : 0;
+  const perfectPickBonus = isPerfect ? rules.perfectPickBonus : 0;
 
   // Penalty for wrong winner pick (negative, used for normalized score)
-  let penalty = 0;
-  if (!correctWinner) {
-    if (pickedFighterOdds == null) {
-      penalty = -50;
-    } else if (pickedFighterOdds <= -300) {
-      penalty = -100; // picked a massive favourite who lost
-    } else if (pickedFighterOdds <= -150) {
-      penalty = -75;
-    } else if (pickedFighterOdds <= -110) {
-      penalty = -50;
-    } else if (pickedFighterOdds <= 110) {
-      penalty = -35;
-    } else {
-      penalty = -20; // underdog pick that lost
-    }
-  }
+  const penalty = correctWinner ? 0 : -Math.round(getWrongPickPenalty(pickedFighterOdds, rules) * rules.baseWinner);
 
   const totalPoints = correctWinner
     ? winnerPoints + finishTypePoints + methodPoints + underdogBonus + perfectPickBonus
@@ -0,0 +1,150 @@
+/**
+ * Replays the cards in ./fixtures/results (see server/results/replay.ts for the
+ * format, and the fixtures' README for where they come from).
+ *
+ * Matching and scoring run on every `pnpm test`: the ESPN provider reads the
+ * card's ESPN responses for an in-memory copy of it, and every pick is scored
+ * against the result it produced. The full pipeline — seeding, the result
+ * poller, resolution, profile counters and streaks — needs a scratch MySQL
+ * database in TEST_DATABASE_URL, which is migrated first. Locally it is
+ * skipped without one; with CI set it fails instead.
+ */
+
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { migrate } from "drizzle-orm/mysql2/migrator";
+import * as db from "../server/db";
+import { ENV } from "../server/_core/env";
+import { scorePrediction } from "../server/fight-resolution";
+import { espnProvider } from "../server/results/espn";
+import { toFightResultInput } from "../server/results/index";
+import { loadReplayCard, replayCard, useRecordedResults, type ReplayCard } from "../server/results/replay";
+import { DEFAULT_SCORING_RULES, type Event, type Fight, type Prediction } from "../shared/types";
+
+const FIXTURES = path.join(__dirname, "fixtures/results");
+const CARDS = ["same-surname", "no-contest", "draw"];
+
+const envBefore = { ...ENV };
+afterEach(() => {
+  Object.assign(ENV, envBefore);
+});
+
+function pick(source: Record<string, unknown>, keys: string[]) {
+  return Object.fromEntries(keys.map((key) => [key, source[key]]));
+}
+
+/** The card's event and fights as the poller would load them, without a database. */
+function pendingCard(card: ReplayCard) {
+  const event = { id: 1, name: card.event.name, shortName: card.event.shortName ?? null, eventDate: new Date(card.event.eventDate) } as Event;
+  const fights = card.fights.map((f, i) => ({
+    ...f,
+    id: i + 1,
+    eventId: event.id,
+    fighter1Id: 2 * i + 1,
+    fighter2Id: 2 * i + 2,
+    odds1: f.odds1 ?? null,
+    odds2: f.odds2 ?? null,
+    status: "live",
+  }) as Fight);
+  return { event, fights, fighters: new Map() };
+}
+
+function toPrediction(p: ReplayCard["predictions"][number], fight: Fight, id: number) {
+  return {
+    id,
+    userId: 0,
+    fightId: fight.id,
+    pickedWinner: p.pickedWinner,
+    pickedWinnerId: p.pickedWinner === fight.fighter1Name ? fight.fighter1Id : p.pickedWinner === fight.fighter2Name ? fight.fighter2Id : null,
+    pickedFinishType: p.pickedFinishType ?? null,
+    pickedMethod: p.pickedMethod ?? null,
+    oddsAtPrediction: p.oddsAtPrediction ?? null,
+    status: "pending",
+  } as Prediction;
+}
+
+// ─── Matching & scoring (no database) ─────────────────────────────────────────
+
+for (const name of CARDS) {
+  const dir = path.join(FIXTURES, name);
+
+  describe(`synthetic card: ${name}`, () => {
+    let card: ReplayCard;
+    beforeAll(async () => {
+      card = await loadReplayCard(dir);
+    });
+
+    it("ESPN results match each fight with its winner, method and details", async () => {
+      useRecordedResults(dir, card);
+      const { fights, ...rest } = pendingCard(card);
+      const results = await espnProvider.fetchResults([{ fights, ...rest }]);
+
+      expect(results).toHaveLength(card.fights.length);
+      for (const { fight: index, ...expected } of card.expected.fights) {
+        const result = results.find((r) => r.fightId === fights[index].id);
+        if (!result) throw new Error(`no result for fights[${index}]`);
+        expect(result.confidence, `fights[${index}] confidence`).toBeGreaterThanOrEqual(ENV.resultConfidenceThreshold);
+        const keys = ["status", "winner", "method", "round", "fightTime", "decisionType", "referee"].filter((k) => k in expected);
+        expect(pick({ ...result }, keys), `fights[${index}]`).toEqual(pick(expected, keys));
+      }
+    });
+
+    it("picks score to the expected status and points", async () => {
+      useRecordedResults(dir, card);
+      const { fights, ...rest } = pendingCard(card);
+      const results = await espnProvider.fetchResults([{ fights, ...rest }]);
+
+      for (const { user, fight: index, ...expected } of card.expected.predictions) {
+        const fight = fights[index];
+        const cardPick = card.predictions.find((p) => p.user === user && p.fight === index);
+        const result = results.find((r) => r.fightId === fight.id);
+        if (!cardPick || !result) throw new Error(`predictions[${user}, ${index}] has no pick or result`);
+
+        const scored = scorePrediction(
+          toPrediction(cardPick, fight, index),
+          fight,
+          result.status === "completed" ? toFightResultInput(result) : null,
+          DEFAULT_SCORING_RULES,
+        );
+        const { breakdown } = scored;
+        const actual = {
+          status: scored.status,
+          winnerPoints: breakdown.winnerPoints,
+          finishTypePoints: breakdown.finishTypePoints,
+          methodPoints: breakdown.methodPoints,
+          bonusPoints: breakdown.underdogBonus + breakdown.perfectPickBonus,
+          totalPoints: breakdown.totalPoints,
+        };
+        expect(pick(actual, Object.keys(expected)), `predictions[${user}, ${index}]`).toEqual(expected);
+      }
+    });
+  });
+}
+
+// ─── Full replay (scratch database) ───────────────────────────────────────────
+
+describe.skipIf(!process.env.TEST_DATABASE_URL && !process.env.CI)("full replay through the result poller", () => {
+  beforeAll(async () => {
+    if (!process.env.TEST_DATABASE_URL) throw new Error("CI is set but TEST_DATABASE_URL is not: point it at a scratch MySQL database");
+    process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+    const conn = await db.getDb();
+    if (!conn) throw new Error("Could not connect to TEST_DATABASE_URL");
+    await migrate(conn, { migrationsFolder: path.join(__dirname, "../drizzle") });
+  });
+
+  afterAll(async () => {
+    await (await db.getDb())?.$client.end();
+  });
+
+  for (const name of CARDS) {
+    it(`${name}: fights, predictions and profile counters`, async () => {
+      const dir = path.join(FIXTURES, name);
+      const card = await loadReplayCard(dir);
+      const { poll, mismatches } = await replayCard(dir, card);
+
+      expect(poll.errors).toEqual([]);
+      expect(poll.held).toBe(0);
+      expect(mismatches).toEqual([]);
+    });
+  }
+});